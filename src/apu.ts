@@ -0,0 +1,665 @@
+import MMU, { IORegister, MemoryRegion, MMUBase } from './mmu';
+import { StateReader, StateWriter } from './state';
+
+const CLOCK_RATE = 4194304;
+const FRAME_SEQUENCER_CYCLES = 2048;
+
+const DUTY_PATTERNS = [
+    [0, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 1, 1, 1],
+    [0, 1, 1, 1, 1, 1, 1, 0],
+];
+
+const NOISE_DIVISORS = [8, 16, 32, 48, 64, 80, 96, 112];
+
+// Bits that always read back as 1 for 0xFF10-0xFF2F
+const READ_MASKS = [
+    0x80, 0x3F, 0x00, 0xFF, 0xBF,
+    0xFF, 0x3F, 0x00, 0xFF, 0xBF,
+    0x7F, 0xFF, 0x9F, 0xFF, 0xBF,
+    0xFF, 0xFF, 0x00, 0x00, 0xBF,
+    0x00, 0x00, 0x70,
+    0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+];
+
+class Envelope {
+    initial = 0;
+    increase = false;
+    period = 0;
+
+    volume = 0;
+    timer = 0;
+
+    setReg(v: number) {
+        this.initial = v >> 4;
+        this.increase = (v & 0x08) != 0;
+        this.period = v & 0x07;
+    }
+
+    trigger() {
+        this.volume = this.initial;
+        this.timer = this.period;
+    }
+
+    clock() {
+        if (this.period == 0 || --this.timer > 0) {
+            return;
+        }
+
+        this.timer = this.period;
+        if (this.increase && this.volume < 15) {
+            ++this.volume;
+        }
+        else if (!this.increase && this.volume > 0) {
+            --this.volume;
+        }
+    }
+
+    serialize(w: StateWriter) {
+        w.u8(this.volume);
+        w.u8(this.timer);
+    }
+
+    deserialize(r: StateReader) {
+        this.volume = r.u8();
+        this.timer = r.u8();
+    }
+}
+
+abstract class Channel {
+    enabled = false;
+    dacEnabled = false;
+    length = 0;
+    lengthEnabled = false;
+    timer = 0;
+
+    protected abstract readonly maxLength: number;
+
+    clockLength() {
+        if (this.lengthEnabled && this.length > 0 && --this.length == 0) {
+            this.enabled = false;
+        }
+    }
+
+    setLength(v: number) {
+        this.length = this.maxLength - v;
+    }
+
+    trigger() {
+        this.enabled = this.dacEnabled;
+        if (this.length == 0) {
+            this.length = this.maxLength;
+        }
+    }
+
+    abstract output(): number;
+    abstract step(ticks: number): void;
+
+    serialize(w: StateWriter) {
+        w.bool(this.enabled);
+        w.bool(this.dacEnabled);
+        w.u16(this.length);
+        w.bool(this.lengthEnabled);
+        w.u32(this.timer);
+    }
+
+    deserialize(r: StateReader) {
+        this.enabled = r.bool();
+        this.dacEnabled = r.bool();
+        this.length = r.u16();
+        this.lengthEnabled = r.bool();
+        this.timer = r.u32();
+    }
+}
+
+class SquareChannel extends Channel {
+    protected readonly maxLength = 64;
+
+    envelope = new Envelope();
+    duty = 0;
+    dutyStep = 0;
+    freq = 0;
+
+    hasSweep: boolean;
+    sweepPeriod = 0;
+    sweepNegate = false;
+    sweepShift = 0;
+    sweepTimer = 0;
+    sweepEnabled = false;
+    sweepShadow = 0;
+
+    constructor(hasSweep: boolean) {
+        super();
+        this.hasSweep = hasSweep;
+    }
+
+    private period(): number {
+        return (2048 - this.freq) * 4;
+    }
+
+    private sweepCalc(): number {
+        const delta = this.sweepShadow >> this.sweepShift;
+        const freq = this.sweepNegate ? this.sweepShadow - delta : this.sweepShadow + delta;
+        if (freq > 2047) {
+            this.enabled = false;
+        }
+
+        return freq;
+    }
+
+    trigger() {
+        super.trigger();
+        this.timer = this.period();
+        this.envelope.trigger();
+
+        if (this.hasSweep) {
+            this.sweepShadow = this.freq;
+            this.sweepTimer = this.sweepPeriod || 8;
+            this.sweepEnabled = this.sweepPeriod != 0 || this.sweepShift != 0;
+            if (this.sweepShift != 0) {
+                this.sweepCalc();
+            }
+        }
+    }
+
+    clockSweep() {
+        if (--this.sweepTimer > 0) {
+            return;
+        }
+
+        this.sweepTimer = this.sweepPeriod || 8;
+        if (!this.sweepEnabled || this.sweepPeriod == 0) {
+            return;
+        }
+
+        const freq = this.sweepCalc();
+        if (freq <= 2047 && this.sweepShift != 0) {
+            this.sweepShadow = this.freq = freq;
+            this.sweepCalc();
+        }
+    }
+
+    step(ticks: number) {
+        this.timer -= ticks;
+        while (this.timer <= 0) {
+            this.timer += this.period();
+            this.dutyStep = (this.dutyStep + 1) & 7;
+        }
+    }
+
+    output(): number {
+        if (!this.enabled) {
+            return 0;
+        }
+
+        return DUTY_PATTERNS[this.duty][this.dutyStep] ? this.envelope.volume : 0;
+    }
+
+    serialize(w: StateWriter) {
+        super.serialize(w);
+        this.envelope.serialize(w);
+        w.u8(this.dutyStep);
+        w.u16(this.freq);
+        w.u8(this.sweepTimer);
+        w.bool(this.sweepEnabled);
+        w.u16(this.sweepShadow);
+    }
+
+    deserialize(r: StateReader) {
+        super.deserialize(r);
+        this.envelope.deserialize(r);
+        this.dutyStep = r.u8();
+        this.freq = r.u16();
+        this.sweepTimer = r.u8();
+        this.sweepEnabled = r.bool();
+        this.sweepShadow = r.u16();
+    }
+}
+
+class WaveChannel extends Channel {
+    protected readonly maxLength = 256;
+
+    waveRam = new Uint8Array(16);
+    volumeShift = 4;
+    freq = 0;
+    position = 0;
+    sample = 0;
+
+    private period(): number {
+        return (2048 - this.freq) * 2;
+    }
+
+    setVolume(v: number) {
+        // 0: mute, 1: 100%, 2: 50%, 3: 25%
+        const code = (v >> 5) & 0x3;
+        this.volumeShift = code == 0 ? 4 : code - 1;
+    }
+
+    trigger() {
+        super.trigger();
+        this.timer = this.period();
+        this.position = 0;
+    }
+
+    step(ticks: number) {
+        this.timer -= ticks;
+        while (this.timer <= 0) {
+            this.timer += this.period();
+            this.position = (this.position + 1) & 31;
+            const b = this.waveRam[this.position >> 1];
+            this.sample = (this.position & 1) ? (b & 0x0F) : (b >> 4);
+        }
+    }
+
+    output(): number {
+        if (!this.enabled) {
+            return 0;
+        }
+
+        return this.sample >> this.volumeShift;
+    }
+
+    serialize(w: StateWriter) {
+        super.serialize(w);
+        w.u16(this.freq);
+        w.u8(this.position);
+        w.u8(this.sample);
+    }
+
+    deserialize(r: StateReader) {
+        super.deserialize(r);
+        this.freq = r.u16();
+        this.position = r.u8();
+        this.sample = r.u8();
+    }
+}
+
+class NoiseChannel extends Channel {
+    protected readonly maxLength = 64;
+
+    envelope = new Envelope();
+    shift = 0;
+    narrow = false;
+    divisor = 0;
+    lfsr = 0x7FFF;
+
+    private period(): number {
+        return NOISE_DIVISORS[this.divisor] << this.shift;
+    }
+
+    setPoly(v: number) {
+        this.shift = v >> 4;
+        this.narrow = (v & 0x08) != 0;
+        this.divisor = v & 0x07;
+    }
+
+    trigger() {
+        super.trigger();
+        this.timer = this.period();
+        this.envelope.trigger();
+        this.lfsr = 0x7FFF;
+    }
+
+    step(ticks: number) {
+        this.timer -= ticks;
+        while (this.timer <= 0) {
+            this.timer += this.period();
+
+            const xor = (this.lfsr ^ (this.lfsr >> 1)) & 1;
+            this.lfsr = (this.lfsr >> 1) | (xor << 14);
+            if (this.narrow) {
+                this.lfsr = (this.lfsr & ~0x40) | (xor << 6);
+            }
+        }
+    }
+
+    output(): number {
+        if (!this.enabled) {
+            return 0;
+        }
+
+        return (this.lfsr & 1) ? 0 : this.envelope.volume;
+    }
+
+    serialize(w: StateWriter) {
+        super.serialize(w);
+        this.envelope.serialize(w);
+        w.u16(this.lfsr);
+    }
+
+    deserialize(r: StateReader) {
+        super.deserialize(r);
+        this.envelope.deserialize(r);
+        this.lfsr = r.u16();
+    }
+}
+
+export default class APU implements MemoryRegion {
+    public readonly start = MMUBase.REGS + IORegister.Sound1Sweep;
+    public readonly length = 0x30;
+
+    private regs: Uint8Array;
+    private power: boolean;
+
+    private ch1: SquareChannel;
+    private ch2: SquareChannel;
+    private ch3: WaveChannel;
+    private ch4: NoiseChannel;
+
+    private frameCycles: number;
+    private frameStep: number;
+
+    private sampleRate: number;
+    private rateAdjust: number;
+    private sampleTicks: number;
+    private samples: Float32Array;
+    private sampleCount: number;
+    private capacitorL: number;
+    private capacitorR: number;
+    private capacitorFactor: number;
+
+    constructor(mmu: MMU, sampleRate: number = 44100) {
+        this.regs = new Uint8Array(this.length);
+        this.power = true;
+
+        this.ch1 = new SquareChannel(true);
+        this.ch2 = new SquareChannel(false);
+        this.ch3 = new WaveChannel();
+        this.ch4 = new NoiseChannel();
+
+        this.frameCycles = 0;
+        this.frameStep = 0;
+
+        this.sampleRate = sampleRate;
+        this.rateAdjust = 1;
+        this.sampleTicks = 0;
+        this.samples = new Float32Array(0);
+        this.sampleCount = 0;
+        this.capacitorL = this.capacitorR = 0;
+        this.capacitorFactor = 0;
+        this.setSampleRate(sampleRate);
+
+        // Take over whatever the post-boot setup already wrote to the sound registers,
+        // without retriggering the channels
+        for (let i = 0; i < this.length; i++) {
+            const v = mmu.read(this.start + i);
+            const reg = (this.start + i) & 0xFF;
+            const trigger = reg == IORegister.Sound1FreqHi || reg == IORegister.Sound2FreqHi ||
+                reg == IORegister.Sound3FreqHi || reg == IORegister.Sound4Counter;
+            this.write(this.start + i, trigger ? (v & 0x7F) : v);
+        }
+        mmu.mapRegion(this);
+    }
+
+    getSampleRate(): number { return this.sampleRate; }
+
+    setSampleRate(sampleRate: number) {
+        this.sampleRate = sampleRate;
+        // Holds about 1/4 second of stereo samples between drains
+        this.samples = new Float32Array(Math.ceil(sampleRate / 4) * 2);
+        this.sampleCount = 0;
+        this.capacitorFactor = Math.pow(0.999958, CLOCK_RATE / sampleRate);
+    }
+
+    // Scales the number of samples produced per emulated second without changing the filter,
+    // used for small corrections that keep the host's audio buffer from draining or overflowing
+    setRateAdjust(ratio: number) {
+        this.rateAdjust = ratio;
+    }
+
+    // Number of stereo frames waiting to be drained
+    getSampleCount(): number { return this.sampleCount; }
+
+    // Returns interleaved left/right samples produced since the last call
+    drainSamples(): Float32Array {
+        const out = this.samples.slice(0, this.sampleCount * 2);
+        this.sampleCount = 0;
+        return out;
+    }
+
+    read(addr: number): number {
+        const reg = addr - this.start;
+        if (reg >= IORegister.WaveRAM - IORegister.Sound1Sweep) {
+            return this.ch3.waveRam[reg & 0x0F];
+        }
+
+        if (addr == MMUBase.REGS + IORegister.SoundControl) {
+            return (this.power ? 0x80 : 0) | 0x70 |
+                (this.ch1.enabled ? 0x01 : 0) | (this.ch2.enabled ? 0x02 : 0) |
+                (this.ch3.enabled ? 0x04 : 0) | (this.ch4.enabled ? 0x08 : 0);
+        }
+
+        return this.regs[reg] | READ_MASKS[reg];
+    }
+
+    write(addr: number, v: number): void {
+        const reg = addr - this.start;
+        if (reg >= IORegister.WaveRAM - IORegister.Sound1Sweep) {
+            this.ch3.waveRam[reg & 0x0F] = v;
+            return;
+        }
+
+        if (addr == MMUBase.REGS + IORegister.SoundControl) {
+            this.setPower((v & 0x80) != 0);
+            return;
+        }
+
+        if (!this.power) {
+            return;
+        }
+
+        this.regs[reg] = v;
+        switch (addr & 0xFF) {
+            case IORegister.Sound1Sweep:
+                this.ch1.sweepPeriod = (v >> 4) & 0x07;
+                this.ch1.sweepNegate = (v & 0x08) != 0;
+                this.ch1.sweepShift = v & 0x07;
+                break;
+
+            case IORegister.Sound1Mode: this.ch1.duty = v >> 6; this.ch1.setLength(v & 0x3F); break;
+            case IORegister.Sound2Mode: this.ch2.duty = v >> 6; this.ch2.setLength(v & 0x3F); break;
+            case IORegister.Sound3Length: this.ch3.setLength(v); break;
+            case IORegister.Sound4Length: this.ch4.setLength(v & 0x3F); break;
+
+            case IORegister.Sound1Envelope: this.setEnvelope(this.ch1, this.ch1.envelope, v); break;
+            case IORegister.Sound2Envelope: this.setEnvelope(this.ch2, this.ch2.envelope, v); break;
+            case IORegister.Sound4Envelope: this.setEnvelope(this.ch4, this.ch4.envelope, v); break;
+
+            case IORegister.Sound3Enable:
+                this.ch3.dacEnabled = (v & 0x80) != 0;
+                if (!this.ch3.dacEnabled) {
+                    this.ch3.enabled = false;
+                }
+                break;
+
+            case IORegister.Sound3Level: this.ch3.setVolume(v); break;
+            case IORegister.Sound4Poly: this.ch4.setPoly(v); break;
+
+            case IORegister.Sound1FreqLo: this.ch1.freq = (this.ch1.freq & 0x700) | v; break;
+            case IORegister.Sound2FreqLo: this.ch2.freq = (this.ch2.freq & 0x700) | v; break;
+            case IORegister.Sound3FreqLo: this.ch3.freq = (this.ch3.freq & 0x700) | v; break;
+
+            case IORegister.Sound1FreqHi:
+                this.ch1.freq = (this.ch1.freq & 0xFF) | ((v & 0x07) << 8);
+                this.setControl(this.ch1, v);
+                break;
+
+            case IORegister.Sound2FreqHi:
+                this.ch2.freq = (this.ch2.freq & 0xFF) | ((v & 0x07) << 8);
+                this.setControl(this.ch2, v);
+                break;
+
+            case IORegister.Sound3FreqHi:
+                this.ch3.freq = (this.ch3.freq & 0xFF) | ((v & 0x07) << 8);
+                this.setControl(this.ch3, v);
+                break;
+
+            case IORegister.Sound4Counter:
+                this.setControl(this.ch4, v);
+                break;
+        }
+    }
+
+    private setEnvelope(ch: Channel, envelope: Envelope, v: number) {
+        envelope.setReg(v);
+        ch.dacEnabled = (v & 0xF8) != 0;
+        if (!ch.dacEnabled) {
+            ch.enabled = false;
+        }
+    }
+
+    private setControl(ch: Channel, v: number) {
+        ch.lengthEnabled = (v & 0x40) != 0;
+        if (v & 0x80) {
+            ch.trigger();
+        }
+    }
+
+    private setPower(on: boolean) {
+        if (on == this.power) {
+            return;
+        }
+
+        if (!on) {
+            for (let i = IORegister.Sound1Sweep; i <= IORegister.SoundOutput; i++) {
+                this.write(MMUBase.REGS + i, 0);
+            }
+
+            for (const ch of [this.ch1, this.ch2, this.ch3, this.ch4]) {
+                ch.enabled = false;
+                ch.length = 0;
+            }
+        }
+        else {
+            this.frameStep = 0;
+        }
+
+        this.power = on;
+    }
+
+    private clockFrameSequencer() {
+        const channels = [this.ch1, this.ch2, this.ch3, this.ch4];
+        switch (this.frameStep) {
+            case 0: case 4:
+                channels.forEach(ch => ch.clockLength());
+                break;
+
+            case 2: case 6:
+                channels.forEach(ch => ch.clockLength());
+                this.ch1.clockSweep();
+                break;
+
+            case 7:
+                this.ch1.envelope.clock();
+                this.ch2.envelope.clock();
+                this.ch4.envelope.clock();
+                break;
+        }
+
+        this.frameStep = (this.frameStep + 1) & 7;
+    }
+
+    private dac(ch: Channel): number {
+        return ch.dacEnabled ? ch.output() / 7.5 - 1 : 0;
+    }
+
+    private emitSample() {
+        if (this.sampleCount * 2 >= this.samples.length) {
+            return;
+        }
+
+        const panning = this.regs[IORegister.SoundOutput - IORegister.Sound1Sweep];
+        const volume = this.regs[IORegister.SoundChannels - IORegister.Sound1Sweep];
+        const outputs = [this.dac(this.ch1), this.dac(this.ch2), this.dac(this.ch3), this.dac(this.ch4)];
+
+        let left = 0;
+        let right = 0;
+        for (let i = 0; i < 4; i++) {
+            if (panning & (0x10 << i)) {
+                left += outputs[i];
+            }
+            if (panning & (0x01 << i)) {
+                right += outputs[i];
+            }
+        }
+
+        left *= (((volume >> 4) & 0x07) + 1) / 32;
+        right *= ((volume & 0x07) + 1) / 32;
+
+        // High-pass filter standing in for the output capacitor, removes the DAC's DC offset
+        const outL = left - this.capacitorL;
+        this.capacitorL = left - outL * this.capacitorFactor;
+        const outR = right - this.capacitorR;
+        this.capacitorR = right - outR * this.capacitorFactor;
+
+        this.samples[this.sampleCount * 2] = outL;
+        this.samples[this.sampleCount * 2 + 1] = outR;
+        ++this.sampleCount;
+    }
+
+    Step(cycles: number): void {
+        const ticks = cycles * 4;
+
+        if (this.power) {
+            this.frameCycles += cycles;
+            while (this.frameCycles >= FRAME_SEQUENCER_CYCLES) {
+                this.frameCycles -= FRAME_SEQUENCER_CYCLES;
+                this.clockFrameSequencer();
+            }
+
+            this.ch1.step(ticks);
+            this.ch2.step(ticks);
+            this.ch3.step(ticks);
+            this.ch4.step(ticks);
+        }
+
+        this.sampleTicks += ticks * this.sampleRate * this.rateAdjust;
+        while (this.sampleTicks >= CLOCK_RATE) {
+            this.sampleTicks -= CLOCK_RATE;
+            this.emitSample();
+        }
+    }
+
+    serialize(w: StateWriter) {
+        w.bytes(this.regs);
+        w.bytes(this.ch3.waveRam);
+        w.bool(this.power);
+        w.f64(this.frameCycles);
+        w.u8(this.frameStep);
+        this.ch1.serialize(w);
+        this.ch2.serialize(w);
+        this.ch3.serialize(w);
+        this.ch4.serialize(w);
+    }
+
+    deserialize(r: StateReader) {
+        r.bytes(this.regs);
+        r.bytes(this.ch3.waveRam);
+        this.power = r.bool();
+        this.frameCycles = r.f64();
+        this.frameStep = r.u8();
+
+        // Rebuild the register-derived channel settings before restoring the running state
+        for (const reg of [IORegister.Sound1Sweep, IORegister.Sound1Mode, IORegister.Sound1Envelope,
+            IORegister.Sound2Mode, IORegister.Sound2Envelope, IORegister.Sound3Level, IORegister.Sound4Envelope, IORegister.Sound4Poly]) {
+            this.rewriteReg(reg);
+        }
+        for (const reg of [IORegister.Sound1FreqHi, IORegister.Sound2FreqHi, IORegister.Sound3FreqHi, IORegister.Sound4Counter]) {
+            this.regs[reg - IORegister.Sound1Sweep] &= 0x7F;
+            this.rewriteReg(reg);
+        }
+
+        this.ch1.deserialize(r);
+        this.ch2.deserialize(r);
+        this.ch3.deserialize(r);
+        this.ch4.deserialize(r);
+    }
+
+    private rewriteReg(reg: IORegister) {
+        const power = this.power;
+        this.power = true;
+        this.write(MMUBase.REGS + reg, this.regs[reg - IORegister.Sound1Sweep]);
+        this.power = power;
+    }
+}
@@ -0,0 +1,97 @@
+// Runs on the audio thread; plays interleaved stereo samples posted from the emulator
+// out of a ring buffer, outputting silence when it runs dry. Reports its fill level back
+// every few blocks so the emulator can pace itself against it.
+const processorSource = `
+class GBAudioProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.buffer = new Float32Array(65536);
+        this.readPos = 0;
+        this.writePos = 0;
+        this.count = 0;
+        this.blocks = 0;
+
+        this.port.onmessage = (ev) => {
+            const samples = ev.data;
+            for (let i = 0; i < samples.length && this.count < this.buffer.length; i++) {
+                this.buffer[this.writePos] = samples[i];
+                this.writePos = (this.writePos + 1) & (this.buffer.length - 1);
+                ++this.count;
+            }
+        };
+    }
+
+    process(inputs, outputs) {
+        const left = outputs[0][0];
+        const right = outputs[0][1] || left;
+        for (let i = 0; i < left.length; i++) {
+            if (this.count >= 2) {
+                left[i] = this.buffer[this.readPos];
+                right[i] = this.buffer[this.readPos + 1];
+                this.readPos = (this.readPos + 2) & (this.buffer.length - 1);
+                this.count -= 2;
+            }
+            else {
+                left[i] = right[i] = 0;
+            }
+        }
+
+        if ((++this.blocks & 7) == 0) {
+            this.port.postMessage(this.count >> 1);
+        }
+
+        return true;
+    }
+}
+
+registerProcessor('gb-audio', GBAudioProcessor);
+`;
+
+export default class AudioOutput {
+    private context: AudioContext;
+    private node: AudioWorkletNode;
+    private buffered: number;
+
+    private constructor(context: AudioContext, node: AudioWorkletNode) {
+        this.context = context;
+        this.node = node;
+        this.buffered = 0;
+        this.node.port.onmessage = (ev: MessageEvent) => this.buffered = ev.data;
+    }
+
+    // Browsers only allow audio to start from a user gesture, so call this from an input handler
+    static async create(): Promise<AudioOutput> {
+        const context = new AudioContext({ latencyHint: 'interactive' });
+        const url = URL.createObjectURL(new Blob([processorSource], { type: 'application/javascript' }));
+        try {
+            await context.audioWorklet.addModule(url);
+        }
+        finally {
+            URL.revokeObjectURL(url);
+        }
+
+        const node = new AudioWorkletNode(context, 'gb-audio', { outputChannelCount: [2] });
+        node.connect(context.destination);
+        return new AudioOutput(context, node);
+    }
+
+    getSampleRate(): number { return this.context.sampleRate; }
+
+    isRunning(): boolean { return this.context.state == 'running'; }
+
+    // Approximate seconds of audio queued for playback
+    getBufferedSeconds(): number { return this.buffered / this.context.sampleRate; }
+
+    push(samples: Float32Array) {
+        if (samples.length > 0) {
+            this.buffered += samples.length >> 1;
+            this.node.port.postMessage(samples, [samples.buffer]);
+        }
+    }
+
+    resume() {
+        if (this.context.state != 'running') {
+            this.context.resume();
+        }
+    }
+}
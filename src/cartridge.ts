@@ -0,0 +1,187 @@
+export const enum CGBSupport {
+    None = 0,
+    Compatible,
+    Only
+}
+
+export const enum Destination {
+    Japan = 0,
+    Overseas
+}
+
+export interface CartridgeType {
+    name: string;
+    mbc: number;
+    ram: boolean;
+    battery: boolean;
+    timer: boolean;
+    rumble: boolean;
+}
+
+export interface CartridgeHeader {
+    title: string;
+    manufacturerCode: string;
+    cgbFlag: number;
+    cgbSupport: CGBSupport;
+    sgbSupport: boolean;
+    licenseeCode: string;
+    licensee: string;
+    cartridgeType: number;
+    type: CartridgeType;
+    romSize: number;
+    ramSize: number;
+    destination: Destination;
+    version: number;
+    headerChecksum: number;
+    headerChecksumValid: boolean;
+    globalChecksum: number;
+    globalChecksumValid: boolean;
+}
+
+// mbc: -1 for mappers the emulator does not implement
+const cartType = (name: string, mbc: number, ram = false, battery = false, timer = false, rumble = false): CartridgeType =>
+    ({ name, mbc, ram, battery, timer, rumble });
+
+const CARTRIDGE_TYPES: { [type: number]: CartridgeType } = {
+    0x00: cartType('ROM ONLY', 0),
+    0x01: cartType('MBC1', 1),
+    0x02: cartType('MBC1+RAM', 1, true),
+    0x03: cartType('MBC1+RAM+BATTERY', 1, true, true),
+    0x05: cartType('MBC2', 2, true),
+    0x06: cartType('MBC2+BATTERY', 2, true, true),
+    0x08: cartType('ROM+RAM', 0, true),
+    0x09: cartType('ROM+RAM+BATTERY', 0, true, true),
+    0x0B: cartType('MMM01', -1),
+    0x0C: cartType('MMM01+RAM', -1, true),
+    0x0D: cartType('MMM01+RAM+BATTERY', -1, true, true),
+    0x0F: cartType('MBC3+TIMER+BATTERY', 3, false, true, true),
+    0x10: cartType('MBC3+TIMER+RAM+BATTERY', 3, true, true, true),
+    0x11: cartType('MBC3', 3),
+    0x12: cartType('MBC3+RAM', 3, true),
+    0x13: cartType('MBC3+RAM+BATTERY', 3, true, true),
+    0x19: cartType('MBC5', 5),
+    0x1A: cartType('MBC5+RAM', 5, true),
+    0x1B: cartType('MBC5+RAM+BATTERY', 5, true, true),
+    0x1C: cartType('MBC5+RUMBLE', 5, false, false, false, true),
+    0x1D: cartType('MBC5+RUMBLE+RAM', 5, true, false, false, true),
+    0x1E: cartType('MBC5+RUMBLE+RAM+BATTERY', 5, true, true, false, true),
+    0x20: cartType('MBC6', -1, true),
+    0x22: cartType('MBC7+SENSOR+RUMBLE+RAM+BATTERY', -1, true, true, false, true),
+    0xFC: cartType('POCKET CAMERA', -1, true),
+    0xFD: cartType('BANDAI TAMA5', -1),
+    0xFE: cartType('HuC3', -1, true, true, true),
+    0xFF: cartType('HuC1+RAM+BATTERY', -1, true, true),
+};
+
+const RAM_SIZES = [0, 0x800, 0x2000, 0x8000, 0x20000, 0x10000];
+
+// https://gbdev.io/pandocs/The_Cartridge_Header.html#01440145--new-licensee-code
+const NEW_LICENSEES: { [code: string]: string } = {
+    '00': 'None', '01': 'Nintendo R&D1', '08': 'Capcom', '13': 'Electronic Arts', '18': 'Hudson Soft',
+    '19': 'b-ai', '20': 'kss', '22': 'pow', '24': 'PCM Complete', '25': 'san-x', '28': 'Kemco Japan',
+    '29': 'seta', '30': 'Viacom', '31': 'Nintendo', '32': 'Bandai', '33': 'Ocean/Acclaim', '34': 'Konami',
+    '35': 'Hector', '37': 'Taito', '38': 'Hudson', '39': 'Banpresto', '41': 'Ubi Soft', '42': 'Atlus',
+    '44': 'Malibu', '46': 'angel', '47': 'Bullet-Proof', '49': 'irem', '50': 'Absolute', '51': 'Acclaim',
+    '52': 'Activision', '53': 'American sammy', '54': 'Konami', '55': 'Hi tech entertainment', '56': 'LJN',
+    '57': 'Matchbox', '58': 'Mattel', '59': 'Milton Bradley', '60': 'Titus', '61': 'Virgin', '64': 'LucasArts',
+    '67': 'Ocean', '69': 'Electronic Arts', '70': 'Infogrames', '71': 'Interplay', '72': 'Broderbund',
+    '73': 'sculptured', '75': 'sci', '78': 'THQ', '79': 'Accolade', '80': 'misawa', '83': 'lozc',
+    '86': 'Tokuma Shoten Intermedia', '87': 'Tsukuda Original', '91': 'Chunsoft', '92': 'Video system',
+    '93': 'Ocean/Acclaim', '95': 'Varie', '96': 'Yonezawa/s\'pal', '97': 'Kaneko', '99': 'Pack in soft',
+    'A4': 'Konami (Yu-Gi-Oh!)',
+};
+
+const OLD_LICENSEES: { [code: number]: string } = {
+    0x00: 'None', 0x01: 'Nintendo', 0x08: 'Capcom', 0x09: 'Hot-B', 0x0A: 'Jaleco', 0x0B: 'Coconuts',
+    0x0C: 'Elite Systems', 0x13: 'Electronic Arts', 0x18: 'Hudson Soft', 0x19: 'ITC Entertainment',
+    0x1A: 'Yanoman', 0x1D: 'Clary', 0x1F: 'Virgin', 0x24: 'PCM Complete', 0x25: 'San-X', 0x28: 'Kotobuki Systems',
+    0x29: 'Seta', 0x30: 'Infogrames', 0x31: 'Nintendo', 0x32: 'Bandai', 0x34: 'Konami', 0x35: 'Hector',
+    0x38: 'Capcom', 0x39: 'Banpresto', 0x41: 'Ubi Soft', 0x42: 'Atlus', 0x44: 'Malibu', 0x46: 'Angel',
+    0x49: 'Irem', 0x4A: 'Virgin', 0x4F: 'U.S. Gold', 0x50: 'Absolute', 0x51: 'Acclaim', 0x52: 'Activision',
+    0x53: 'American Sammy', 0x54: 'GameTek', 0x56: 'LJN', 0x57: 'Matchbox', 0x59: 'Milton Bradley',
+    0x5A: 'Mindscape', 0x5B: 'Romstar', 0x5D: 'Tradewest', 0x60: 'Titus', 0x61: 'Virgin', 0x67: 'Ocean',
+    0x69: 'Electronic Arts', 0x70: 'Infogrames', 0x71: 'Interplay', 0x72: 'Broderbund', 0x78: 'THQ',
+    0x79: 'Accolade', 0x7C: 'Microprose', 0x7F: 'Kemco', 0x8B: 'Bullet-Proof Software', 0x8C: 'Vic Tokai',
+    0x91: 'Chunsoft', 0x92: 'Video System', 0x95: 'Varie', 0x97: 'Kaneko', 0x99: 'Arc', 0x9B: 'Tecmo',
+    0x9C: 'Imagineer', 0x9D: 'Banpresto', 0xA4: 'Konami', 0xA7: 'Takara', 0xAF: 'Namco', 0xB0: 'Acclaim',
+    0xB2: 'Bandai', 0xB4: 'Square Enix', 0xB6: 'HAL Laboratory', 0xB7: 'SNK', 0xB9: 'Pony Canyon',
+    0xBB: 'Sunsoft', 0xBF: 'Sammy', 0xC0: 'Taito', 0xC2: 'Kemco', 0xC3: 'Squaresoft', 0xC5: 'Data East',
+    0xC8: 'Koei', 0xD0: 'Taito', 0xDA: 'Tomy', 0xDB: 'LJN', 0xE0: 'Jaleco', 0xE9: 'Natsume', 0xEB: 'Atlus',
+    0xFF: 'LJN',
+};
+
+export const hex = (v: number, digits: number) => v.toString(16).toUpperCase().padStart(digits, '0');
+
+function readString(rom: Uint8Array, start: number, end: number): string {
+    let s = '';
+    for (let i = start; i < end && rom[i]; i++) {
+        s += String.fromCharCode(rom[i]);
+    }
+
+    return s;
+}
+
+export function cartridgeType(type: number): CartridgeType {
+    return CARTRIDGE_TYPES[type] || cartType('UNKNOWN ' + hex(type, 2), -1);
+}
+
+export function parseCartridgeHeader(rom: Uint8Array): CartridgeHeader {
+    if (rom.length < 0x150) {
+        throw 'ROM too small for a cartridge header ' + rom.length;
+    }
+
+    const cgbFlag = rom[0x143];
+    const cgbSupport = cgbFlag == 0xC0 ? CGBSupport.Only : ((cgbFlag & 0x80) ? CGBSupport.Compatible : CGBSupport.None);
+
+    // Newer carts shorten the title to 11 characters, followed by a 4 character manufacturer code
+    let title = readString(rom, 0x134, cgbSupport != CGBSupport.None ? 0x143 : 0x144);
+    let manufacturerCode = '';
+    if (cgbSupport != CGBSupport.None && title.length == 15 && /^[A-Z0-9]{4}$/.test(title.substr(11))) {
+        manufacturerCode = title.substr(11);
+        title = title.substr(0, 11);
+    }
+
+    let licenseeCode: string;
+    let licensee: string;
+    if (rom[0x14B] == 0x33) {
+        licenseeCode = readString(rom, 0x144, 0x146);
+        licensee = NEW_LICENSEES[licenseeCode] || 'Unknown';
+    }
+    else {
+        licenseeCode = hex(rom[0x14B], 2);
+        licensee = OLD_LICENSEES[rom[0x14B]] || 'Unknown';
+    }
+
+    let headerChecksum = 0;
+    for (let i = 0x134; i < 0x14D; i++) {
+        headerChecksum = (headerChecksum - rom[i] - 1) & 0xFF;
+    }
+
+    let globalChecksum = 0;
+    for (let i = 0; i < rom.length; i++) {
+        if (i != 0x14E && i != 0x14F) {
+            globalChecksum = (globalChecksum + rom[i]) & 0xFFFF;
+        }
+    }
+
+    const type = cartridgeType(rom[0x147]);
+    return {
+        title: title.trim(),
+        manufacturerCode,
+        cgbFlag,
+        cgbSupport,
+        sgbSupport: rom[0x146] == 0x03,
+        licenseeCode,
+        licensee,
+        cartridgeType: rom[0x147],
+        type,
+        romSize: rom[0x148] <= 8 ? (0x8000 << rom[0x148]) : 0,
+        ramSize: type.mbc == 2 ? 0x200 : (RAM_SIZES[rom[0x149]] || 0),
+        destination: rom[0x14A] == 0 ? Destination.Japan : Destination.Overseas,
+        version: rom[0x14C],
+        headerChecksum: rom[0x14D],
+        headerChecksumValid: headerChecksum == rom[0x14D],
+        globalChecksum: (rom[0x14E] << 8) | rom[0x14F],
+        globalChecksumValid: globalChecksum == ((rom[0x14E] << 8) | rom[0x14F]),
+    };
+}
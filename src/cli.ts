@@ -0,0 +1,400 @@
+import fs from 'fs';
+import { hex } from './cartridge';
+import { BreakReason, compileExpression, WatchType } from './debugger';
+import { SymbolTable } from './disasm';
+import Emulator, { Registers } from './emulator';
+import { Button } from './gb';
+import { encodePNG, PNGColorType } from './png';
+import PPU from './ppu';
+import { ConsoleTransport } from './serial';
+import Tracer, { TraceFormat, TraceOptions } from './trace';
+
+const usage = `Usage: node build/src/cli.js <rom> [options]
+
+  --frames N             Most frames to run (default 3600)
+  --until-serial TEXT    Stop once the serial output contains TEXT
+  --until-pc [BANK:]ADDR Stop once PC reaches ADDR, in ROM bank BANK if given
+  --until-cond EXPR      Stop once EXPR is true, e.g. "A == $10 && [HL] != 0". With --until-pc it is only
+                         checked there.
+  --until-watch RANGE    Stop after an access to START[-END][:r|w|rw|x], reads and writes by default
+  --until-mem ADDR=VALUE Stop once the byte at ADDR equals VALUE
+  --input FILE           Scripted input, lines of "<frame> <button> press|release"
+  --boot FILE            Boot ROM to run before the cartridge
+  --screenshot FILE      Write the final frame as PNG
+  --serial FILE          Write everything received over the link port
+  --regs FILE            Write the final registers as JSON
+  --trace FILE           Write a line per instruction executed
+  --trace-format FORMAT  doctor (gameboy-doctor, the default) or bgb (BGB/SameBoy style with disassembly)
+  --trace-ring N         Only write the last N instructions, once the run stops or crashes
+  --trace-range START-END
+                         Only trace instructions at these addresses
+  --trace-bank BANK      Only trace code running from this ROM bank
+  --symbols FILE         RGBDS or no$gmb .sym file labelling the bgb trace
+
+Numbers take a 0x or $ prefix for hex. Exits with 1 when a stop condition was given but not met.`;
+
+const BUTTONS: { [name: string]: Button } = {
+    up: Button.Up, down: Button.Down, left: Button.Left, right: Button.Right,
+    a: Button.A, b: Button.B, start: Button.Start, select: Button.Select,
+};
+
+export interface InputEvent {
+    frame: number;
+    button: Button;
+    pressed: boolean;
+}
+
+export type StopReason = 'frames' | 'serial' | 'pc' | 'memory' | 'watch' | 'condition';
+
+export interface RunOptions {
+    rom: Uint8Array;
+    bootRom: Uint8Array | null;
+    frames: number;
+    untilSerial: string | null;
+    untilPC: number | null;
+    untilBank: number | null;
+    untilCondition: string | null;
+    untilWatch: { start: number, end: number, type: WatchType } | null;
+    untilMemory: { address: number, value: number } | null;
+    input: InputEvent[];
+    // Each line received over the link port as it completes
+    onSerialLine: (line: string) => void;
+    // No tracing when null
+    trace: Partial<TraceOptions> | null;
+    onTraceLine: (line: string) => void;
+}
+
+export interface RunResult {
+    reason: StopReason;
+    // Frames started, the last one may be partial when a condition stopped the run
+    frames: number;
+    serial: string;
+    registers: Registers;
+    screenshot: Buffer;
+}
+
+export function parseNumber(s: string): number {
+    if (/^(\$|0x)[0-9a-f]+$/i.test(s)) {
+        return parseInt(s.replace(/^(\$|0x)/i, ''), 16);
+    }
+
+    if (!/^[0-9]+$/.test(s)) {
+        throw 'Invalid number ' + s;
+    }
+
+    return parseInt(s, 10);
+}
+
+// Blank lines and anything after # are ignored
+export function parseInputScript(text: string): InputEvent[] {
+    const events: InputEvent[] = [];
+    text.split('\n').forEach((raw, i) => {
+        const line = raw.replace(/#.*/, '').trim();
+        if (line.length == 0) {
+            return;
+        }
+
+        const [frame, button, action, ...rest] = line.split(/\s+/);
+        if (!button || !(button.toLowerCase() in BUTTONS) || (action != 'press' && action != 'release') || rest.length > 0) {
+            throw 'Invalid input on line ' + (i + 1) + ': ' + raw;
+        }
+
+        events.push({ frame: parseNumber(frame), button: BUTTONS[button.toLowerCase()], pressed: action == 'press' });
+    });
+
+    // Stable, so events on the same frame keep their order
+    return events.sort((a, b) => a.frame - b.frame);
+}
+
+export function formatRegisters(regs: Registers): string {
+    return 'AF=' + hex(regs.af, 4) + ' BC=' + hex(regs.bc, 4) + ' DE=' + hex(regs.de, 4) + ' HL=' + hex(regs.hl, 4) +
+        ' SP=' + hex(regs.sp, 4) + ' PC=' + hex(regs.pc, 4);
+}
+
+function screenshot(emulator: Emulator): Buffer {
+    if (!emulator.isCGB()) {
+        return encodePNG(PPU.BUF_WIDTH, PPU.BUF_HEIGHT, PNGColorType.Grayscale, emulator.getFramebuffer());
+    }
+
+    const colors = emulator.getColorFramebuffer();
+    const rgb = new Uint8Array(colors.length * 3);
+    for (let i = 0; i < colors.length; i++) {
+        for (let c = 0; c < 3; c++) {
+            const v = (colors[i] >> (c * 5)) & 0x1F;
+            rgb[i * 3 + c] = (v << 3) | (v >> 2);
+        }
+    }
+    return encodePNG(PPU.BUF_WIDTH, PPU.BUF_HEIGHT, PNGColorType.RGB, rgb);
+}
+
+export function runHeadless(options: RunOptions): RunResult {
+    const emulator = new Emulator(options.rom, { dmgBootRom: options.bootRom, cgbBootRom: options.bootRom });
+    const transport = new ConsoleTransport(options.onSerialLine);
+    emulator.setLinkTransport(transport);
+
+    // A ring is written out however the run ends
+    const tracer = options.trace ? new Tracer(emulator, options.trace) : null;
+    if (tracer) {
+        tracer.onLine = options.onTraceLine;
+        emulator.setTracer(tracer);
+    }
+    const dumpTrace = () => tracer?.dump().forEach(options.onTraceLine);
+
+    let reason: StopReason = 'frames';
+    const debug = emulator.getDebugger();
+    if (options.untilPC != null) {
+        debug.addBreakpoint(options.untilPC, options.untilBank, options.untilCondition);
+    }
+    if (options.untilWatch) {
+        debug.addWatchpoint(options.untilWatch.start, options.untilWatch.end, options.untilWatch.type);
+    }
+    emulator.on('breakpoint', (pc, info) => reason = info.reason == BreakReason.Watchpoint ? 'watch' : 'pc');
+
+    const condition = options.untilCondition != null && options.untilPC == null ? compileExpression(options.untilCondition) : null;
+    let serialLength = 0;
+    const conditionMet = (): boolean => {
+        if (condition && condition(emulator.getCPU(), emulator.getMMU()) != 0) {
+            reason = 'condition';
+            return true;
+        }
+
+        if (options.untilMemory && emulator.read(options.untilMemory.address) == options.untilMemory.value) {
+            reason = 'memory';
+            return true;
+        }
+
+        // Only search again when something new arrived
+        if (options.untilSerial != null && transport.text.length != serialLength) {
+            serialLength = transport.text.length;
+            if (transport.text.includes(options.untilSerial)) {
+                reason = 'serial';
+                return true;
+            }
+        }
+
+        return false;
+    };
+    const until = condition || options.untilMemory || options.untilSerial != null ? conditionMet : null;
+
+    let nextEvent = 0;
+    let frame = 0;
+    try {
+        while (frame < options.frames && reason == 'frames') {
+            while (nextEvent < options.input.length && options.input[nextEvent].frame <= frame) {
+                const ev = options.input[nextEvent++];
+                emulator.setButton(ev.button, ev.pressed);
+            }
+
+            ++frame;
+            emulator.runFrame(true, until);
+        }
+    }
+    catch (e) {
+        dumpTrace();
+        throw e;
+    }
+    dumpTrace();
+
+    return {
+        reason,
+        frames: frame,
+        serial: transport.text,
+        registers: emulator.getRegisters(),
+        screenshot: screenshot(emulator),
+    };
+}
+
+export interface CLIArgs {
+    romPath: string;
+    bootPath: string | null;
+    inputPath: string | null;
+    screenshotPath: string | null;
+    serialPath: string | null;
+    regsPath: string | null;
+    frames: number;
+    untilSerial: string | null;
+    untilPC: number | null;
+    untilBank: number | null;
+    untilCondition: string | null;
+    untilWatch: { start: number, end: number, type: WatchType } | null;
+    untilMemory: { address: number, value: number } | null;
+    tracePath: string | null;
+    traceFormat: TraceFormat;
+    traceRing: number;
+    traceRange: { start: number, end: number } | null;
+    traceBank: number | null;
+    symbolsPath: string | null;
+}
+
+export function parseArgs(argv: string[]): CLIArgs {
+    const args: CLIArgs = {
+        romPath: '', bootPath: null, inputPath: null, screenshotPath: null, serialPath: null, regsPath: null,
+        frames: 3600, untilSerial: null, untilPC: null, untilBank: null, untilCondition: null, untilWatch: null, untilMemory: null,
+        tracePath: null, traceFormat: TraceFormat.Doctor, traceRing: 0, traceRange: null, traceBank: null, symbolsPath: null,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            if (args.romPath) {
+                throw 'Unexpected argument ' + arg;
+            }
+            args.romPath = arg;
+            continue;
+        }
+
+        if (i + 1 >= argv.length) {
+            throw 'Missing value for ' + arg;
+        }
+
+        const value = argv[++i];
+        switch (arg) {
+            case '--frames': args.frames = parseNumber(value); break;
+            case '--until-serial': args.untilSerial = value; break;
+            case '--until-pc': {
+                const parts = value.split(':');
+                args.untilPC = parseNumber(parts[parts.length - 1]);
+                args.untilBank = parts.length > 1 ? parseNumber(parts[0]) : null;
+                break;
+            }
+            case '--until-cond':
+                // Compiled up front so mistakes are reported as usage errors
+                compileExpression(value);
+                args.untilCondition = value;
+                break;
+            case '--until-watch': {
+                const [range, access = 'rw'] = value.split(':');
+                const [start, end = start] = range.split('-');
+                if (!/^(r|w|rw|x)$/.test(access)) {
+                    throw 'Expected r, w, rw or x access for --until-watch';
+                }
+                const type = access == 'x' ? WatchType.Execute :
+                    (access.includes('r') ? WatchType.Read : 0) | (access.includes('w') ? WatchType.Write : 0);
+                args.untilWatch = { start: parseNumber(start), end: parseNumber(end), type };
+                break;
+            }
+            case '--until-mem': {
+                const [address, v] = value.split('=');
+                if (v === undefined) {
+                    throw 'Expected ADDR=VALUE for --until-mem';
+                }
+                args.untilMemory = { address: parseNumber(address), value: parseNumber(v) };
+                break;
+            }
+            case '--input': args.inputPath = value; break;
+            case '--boot': args.bootPath = value; break;
+            case '--screenshot': args.screenshotPath = value; break;
+            case '--serial': args.serialPath = value; break;
+            case '--regs': args.regsPath = value; break;
+            case '--trace': args.tracePath = value; break;
+            case '--trace-format':
+                if (value != 'doctor' && value != 'bgb') {
+                    throw 'Expected doctor or bgb for --trace-format';
+                }
+                args.traceFormat = value == 'doctor' ? TraceFormat.Doctor : TraceFormat.BGB;
+                break;
+            case '--trace-ring': args.traceRing = parseNumber(value); break;
+            case '--trace-range': {
+                const [start, end] = value.split('-');
+                if (end === undefined) {
+                    throw 'Expected START-END for --trace-range';
+                }
+                args.traceRange = { start: parseNumber(start), end: parseNumber(end) };
+                break;
+            }
+            case '--trace-bank': args.traceBank = parseNumber(value); break;
+            case '--symbols': args.symbolsPath = value; break;
+            default: throw 'Unknown option ' + arg;
+        }
+    }
+
+    if (!args.romPath) {
+        throw 'No ROM given';
+    }
+
+    return args;
+}
+
+function main(argv: string[]): number {
+    let args: CLIArgs;
+    try {
+        args = parseArgs(argv);
+    }
+    catch (e) {
+        console.error(e);
+        console.error(usage);
+        return 2;
+    }
+
+    // Written in blocks, one write per instruction would dominate the run time
+    const traceFile = args.tracePath ? fs.openSync(args.tracePath, 'w') : null;
+    let traceLines: string[] = [];
+    const flushTrace = () => {
+        if (traceFile != null && traceLines.length > 0) {
+            fs.writeSync(traceFile, traceLines.join('\n') + '\n');
+            traceLines = [];
+        }
+    };
+
+    const symbols = args.symbolsPath ? SymbolTable.parse(fs.readFileSync(args.symbolsPath, 'utf8')) : null;
+    const trace: Partial<TraceOptions> | null = traceFile == null ? null : {
+        format: args.traceFormat, ringSize: args.traceRing, bank: args.traceBank, symbols, ...args.traceRange,
+    };
+
+    let result: RunResult;
+    try {
+        result = runHeadless({
+            rom: fs.readFileSync(args.romPath),
+            bootRom: args.bootPath ? fs.readFileSync(args.bootPath) : null,
+            frames: args.frames,
+            untilSerial: args.untilSerial,
+            untilPC: args.untilPC,
+            untilBank: args.untilBank,
+            untilCondition: args.untilCondition,
+            untilWatch: args.untilWatch,
+            untilMemory: args.untilMemory,
+            input: args.inputPath ? parseInputScript(fs.readFileSync(args.inputPath, 'utf8')) : [],
+            onSerialLine: line => console.log('serial:', line),
+            trace,
+            onTraceLine: line => {
+                traceLines.push(line);
+                if (traceLines.length >= 4096) {
+                    flushTrace();
+                }
+            },
+        });
+    }
+    finally {
+        flushTrace();
+        if (traceFile != null) {
+            fs.closeSync(traceFile);
+        }
+    }
+
+    if (args.screenshotPath) {
+        fs.writeFileSync(args.screenshotPath, result.screenshot);
+    }
+    if (args.serialPath) {
+        fs.writeFileSync(args.serialPath, result.serial);
+    }
+    if (args.regsPath) {
+        fs.writeFileSync(args.regsPath, JSON.stringify(result.registers, null, 4) + '\n');
+    }
+
+    console.log('Stopped after', result.frames, 'frames:', result.reason);
+    console.log(formatRegisters(result.registers));
+
+    const hasCondition = args.untilSerial != null || args.untilPC != null || args.untilCondition != null ||
+        args.untilWatch != null || args.untilMemory != null;
+    return hasCondition && result.reason == 'frames' ? 1 : 0;
+}
+
+if (require.main === module) {
+    try {
+        process.exitCode = main(process.argv.slice(2));
+    }
+    catch (e) {
+        console.error(e);
+        process.exitCode = 2;
+    }
+}
@@ -0,0 +1,423 @@
+import Disassembler, { Instruction, SymbolTable } from './disasm';
+import type Emulator from './emulator';
+import GB from './gb';
+import MMU from './mmu';
+import { CYCLES_PER_SECOND } from './timing';
+
+export const enum WatchType {
+    Read = 1,
+    Write = 2,
+    Execute = 4,
+}
+
+export const enum BreakReason {
+    Breakpoint,
+    Watchpoint,
+    Interrupt,
+    // A step, step over/out or run to cursor finished
+    Step,
+}
+
+export interface Breakpoint {
+    id: number;
+    address: number;
+    // ROM bank the address must be mapped from, null for any. Only checked for 0x0000-0x7FFF.
+    bank: number | null;
+    condition: string | null;
+    enabled: boolean;
+}
+
+export interface Watchpoint {
+    id: number;
+    // Inclusive range
+    start: number;
+    end: number;
+    type: WatchType;
+    enabled: boolean;
+}
+
+export interface BreakInfo {
+    reason: BreakReason;
+    pc: number;
+    bank: number;
+    breakpoint?: Breakpoint;
+    watchpoint?: Watchpoint;
+    // The access that hit a watchpoint
+    address?: number;
+    value?: number;
+    write?: boolean;
+    // IOInterrupt bit that was dispatched
+    interrupt?: number;
+}
+
+type Expr = (gb: GB, mmu: MMU) => number;
+
+const REGISTERS: { [name: string]: Expr } = {
+    A: gb => gb.getAF().Lo(), F: gb => gb.getAF().Hi(),
+    B: gb => gb.getBC().Lo(), C: gb => gb.getBC().Hi(),
+    D: gb => gb.getDE().Lo(), E: gb => gb.getDE().Hi(),
+    H: gb => gb.getHL().Lo(), L: gb => gb.getHL().Hi(),
+    AF: gb => gb.getAF().Word(), BC: gb => gb.getBC().Word(), DE: gb => gb.getDE().Word(), HL: gb => gb.getHL().Word(),
+    SP: gb => gb.getSP(), PC: gb => gb.getPC(),
+    ZF: gb => (gb.getAF().Hi() >> 7) & 1, NF: gb => (gb.getAF().Hi() >> 6) & 1,
+    HF: gb => (gb.getAF().Hi() >> 5) & 1, CF: gb => (gb.getAF().Hi() >> 4) & 1,
+    BANK: (gb, mmu) => mmu.getROMBank(gb.getPC()),
+};
+
+const BINARY_OPS: { [op: string]: (a: number, b: number) => number }[] = [
+    { '||': (a, b) => +(a != 0 || b != 0) },
+    { '&&': (a, b) => +(a != 0 && b != 0) },
+    { '|': (a, b) => a | b },
+    { '^': (a, b) => a ^ b },
+    { '&': (a, b) => a & b },
+    { '==': (a, b) => +(a == b), '!=': (a, b) => +(a != b) },
+    { '<': (a, b) => +(a < b), '<=': (a, b) => +(a <= b), '>': (a, b) => +(a > b), '>=': (a, b) => +(a >= b) },
+    { '<<': (a, b) => a << b, '>>': (a, b) => a >> b },
+    { '+': (a, b) => a + b, '-': (a, b) => a - b },
+];
+
+const TOKEN = /\s*(\$[0-9a-f]+|0x[0-9a-f]+|[0-9]+|[a-z]+|==|!=|<=|>=|&&|\|\||<<|>>|[-+!~&|^<>()[\]])/iy;
+
+// Compiles expressions over registers (A, BC, SP, ..., ZF/NF/HF/CF flags, BANK) and memory ([HL], [$C000]),
+// with C operators and precedence. Numbers take a $ or 0x prefix for hex.
+export function compileExpression(text: string): Expr {
+    const tokens: string[] = [];
+    TOKEN.lastIndex = 0;
+    while (TOKEN.lastIndex < text.length) {
+        const start = TOKEN.lastIndex;
+        const m = TOKEN.exec(text);
+        if (!m) {
+            if (text.substr(start).trim().length == 0) {
+                break;
+            }
+            throw 'Unexpected character in expression at ' + start + ': ' + text;
+        }
+        tokens.push(m[1]);
+    }
+
+    let pos = 0;
+    const expect = (token: string) => {
+        if (tokens[pos] != token) {
+            throw 'Expected ' + token + ' in expression: ' + text;
+        }
+        ++pos;
+    };
+
+    const primary = (): Expr => {
+        const token = tokens[pos++];
+        if (token === undefined) {
+            throw 'Unexpected end of expression: ' + text;
+        }
+
+        if (token == '(') {
+            const e = binary(0);
+            expect(')');
+            return e;
+        }
+
+        if (token == '[') {
+            const e = binary(0);
+            expect(']');
+            return (gb, mmu) => mmu.read(e(gb, mmu) & 0xFFFF);
+        }
+
+        if (token == '!' || token == '~' || token == '-') {
+            const e = primary();
+            return token == '!' ? (gb, mmu) => +(e(gb, mmu) == 0) :
+                token == '~' ? (gb, mmu) => ~e(gb, mmu) : (gb, mmu) => -e(gb, mmu);
+        }
+
+        if (/^[0-9$]/.test(token)) {
+            const v = token.startsWith('$') ? parseInt(token.substr(1), 16) : parseInt(token);
+            return () => v;
+        }
+
+        const reg = REGISTERS[token.toUpperCase()];
+        if (!reg) {
+            throw 'Unknown register ' + token + ' in expression: ' + text;
+        }
+        return reg;
+    };
+
+    const binary = (level: number): Expr => {
+        if (level == BINARY_OPS.length) {
+            return primary();
+        }
+
+        let left = binary(level + 1);
+        while (pos < tokens.length && tokens[pos] in BINARY_OPS[level]) {
+            const op = BINARY_OPS[level][tokens[pos++]];
+            const l = left;
+            const r = binary(level + 1);
+            left = (gb, mmu) => op(l(gb, mmu), r(gb, mmu));
+        }
+        return left;
+    };
+
+    const expr = binary(0);
+    if (pos != tokens.length) {
+        throw 'Unexpected ' + tokens[pos] + ' in expression: ' + text;
+    }
+    return expr;
+}
+
+const CALL_OPCODES = [0xCD, 0xC4, 0xCC, 0xD4, 0xDC];
+const RET_OPCODES = [0xC9, 0xD9, 0xC0, 0xC8, 0xD0, 0xD8];
+const isRST = (opcode: number) => (opcode & 0xC7) == 0xC7;
+
+interface CompiledBreakpoint {
+    breakpoint: Breakpoint;
+    condition: Expr | null;
+}
+
+// Breakpoints, watchpoints and stepping around an Emulator. It checks them between instructions while
+// running; accesses hitting a watchpoint stop once the instruction making them completes.
+export default class Debugger {
+    private emulator: Emulator;
+    private nextId: number;
+
+    private breakpoints: CompiledBreakpoint[];
+    private watchpoints: Watchpoint[];
+    private interruptMask: number;
+
+    // Set during a step over/out or run to cursor, checked after every instruction
+    private stepDone: (() => boolean) | null;
+    private pending: BreakInfo | null;
+    // PC the last stop happened at, not broken on again when leaving it
+    private resumePC: number | null;
+    private lastOpcode: number;
+    private paused: boolean;
+    private symbols: SymbolTable | null;
+
+    // Called for every stop, including the end of steps
+    public onBreak: ((info: BreakInfo) => void) | null;
+
+    constructor(emulator: Emulator) {
+        this.emulator = emulator;
+        this.nextId = 1;
+        this.breakpoints = [];
+        this.watchpoints = [];
+        this.interruptMask = 0;
+        this.stepDone = null;
+        this.pending = null;
+        this.resumePC = null;
+        this.lastOpcode = 0;
+        this.paused = false;
+        this.symbols = null;
+        this.onBreak = null;
+    }
+
+    private get gb(): GB { return this.emulator.getCPU(); }
+    private get mmu(): MMU { return this.emulator.getMMU(); }
+
+    // Hooks into the current components, again after every ROM or state load
+    attach() {
+        this.resumePC = null;
+        this.pending = null;
+        this.hook();
+    }
+
+    // Watchpoint and interrupt hooks are only installed while needed
+    private hook() {
+        this.mmu.onCPUAccess = this.watchpoints.some(w => w.type & (WatchType.Read | WatchType.Write)) ?
+            (addr: number, v: number, write: boolean) => this.onAccess(addr, v, write) : null;
+        this.gb.onInterrupt = this.interruptMask ? (interrupt: number) => this.onInterrupt(interrupt) : null;
+    }
+
+    // Whether anything needs checking between instructions
+    isActive(): boolean {
+        return this.breakpoints.length > 0 || this.watchpoints.length > 0 || this.interruptMask != 0 || this.stepDone != null;
+    }
+
+    // Hosts stop calling runFrame while paused, any stop pauses
+    isPaused(): boolean { return this.paused; }
+    pause() { this.paused = true; }
+    resume() { this.paused = false; }
+
+    addBreakpoint(address: number, bank: number | null = null, condition: string | null = null): Breakpoint {
+        const compiled = condition ? compileExpression(condition) : null;
+        const breakpoint = { id: this.nextId++, address: address & 0xFFFF, bank, condition, enabled: true };
+        this.breakpoints.push({ breakpoint, condition: compiled });
+        return breakpoint;
+    }
+
+    removeBreakpoint(id: number) {
+        this.breakpoints = this.breakpoints.filter(b => b.breakpoint.id != id);
+    }
+
+    getBreakpoints(): Breakpoint[] { return this.breakpoints.map(b => b.breakpoint); }
+
+    // Enables or disables a breakpoint or watchpoint by id
+    setEnabled(id: number, enabled: boolean) {
+        this.breakpoints.filter(b => b.breakpoint.id == id).forEach(b => b.breakpoint.enabled = enabled);
+        this.watchpoints.filter(w => w.id == id).forEach(w => w.enabled = enabled);
+    }
+
+    addWatchpoint(start: number, end: number, type: WatchType): Watchpoint {
+        const watchpoint = { id: this.nextId++, start: Math.min(start, end), end: Math.max(start, end), type, enabled: true };
+        this.watchpoints.push(watchpoint);
+        this.hook();
+        return watchpoint;
+    }
+
+    removeWatchpoint(id: number) {
+        this.watchpoints = this.watchpoints.filter(w => w.id != id);
+        this.hook();
+    }
+
+    getWatchpoints(): Watchpoint[] { return this.watchpoints.slice(); }
+
+    // IOInterrupt bits to stop on when dispatched, 0 for none
+    setBreakOnInterrupt(mask: number) {
+        this.interruptMask = mask;
+        this.hook();
+    }
+
+    getBreakOnInterrupt(): number { return this.interruptMask; }
+
+    private info(reason: BreakReason): BreakInfo {
+        const pc = this.gb.getPC();
+        return { reason, pc, bank: this.mmu.getROMBank(pc) };
+    }
+
+    private onAccess(addr: number, value: number, write: boolean) {
+        if (this.pending) {
+            return;
+        }
+
+        const type = write ? WatchType.Write : WatchType.Read;
+        const watchpoint = this.watchpoints.find(w => w.enabled && (w.type & type) && addr >= w.start && addr <= w.end);
+        if (watchpoint) {
+            this.pending = { ...this.info(BreakReason.Watchpoint), watchpoint, address: addr, value, write };
+        }
+    }
+
+    private onInterrupt(interrupt: number) {
+        if (!this.pending && (this.interruptMask & interrupt)) {
+            this.pending = { ...this.info(BreakReason.Interrupt), interrupt };
+        }
+    }
+
+    private stop(info: BreakInfo): boolean {
+        this.pending = null;
+        this.stepDone = null;
+        this.resumePC = info.pc;
+        this.paused = true;
+        if (this.onBreak) {
+            this.onBreak(info);
+        }
+        return true;
+    }
+
+    // Called by the emulator before each instruction, true stops before executing it
+    beforeStep(): boolean {
+        const pc = this.gb.getPC();
+        this.lastOpcode = this.mmu.read(pc);
+        if (this.resumePC == pc) {
+            this.resumePC = null;
+            return false;
+        }
+        this.resumePC = null;
+
+        for (const { breakpoint, condition } of this.breakpoints) {
+            if (!breakpoint.enabled || breakpoint.address != pc) {
+                continue;
+            }
+            if (breakpoint.bank != null && pc < 0x8000 && this.mmu.getROMBank(pc) != breakpoint.bank) {
+                continue;
+            }
+            if (condition && condition(this.gb, this.mmu) == 0) {
+                continue;
+            }
+
+            return this.stop({ ...this.info(BreakReason.Breakpoint), breakpoint });
+        }
+
+        const watchpoint = this.watchpoints.find(w => w.enabled && (w.type & WatchType.Execute) && pc >= w.start && pc <= w.end);
+        if (watchpoint) {
+            return this.stop({ ...this.info(BreakReason.Watchpoint), watchpoint, address: pc });
+        }
+
+        return false;
+    }
+
+    // Called by the emulator after each instruction, true stops after it
+    afterStep(): boolean {
+        if (this.pending) {
+            return this.stop(this.pending);
+        }
+
+        if (this.stepDone && this.stepDone()) {
+            return this.stop(this.info(BreakReason.Step));
+        }
+
+        return false;
+    }
+
+    // Runs until done returns true after an instruction, a break, or maxCycles pass
+    private runUntil(done: () => boolean, maxCycles: number): BreakInfo {
+        let info = null as BreakInfo | null;
+        const onBreak = this.onBreak;
+        this.onBreak = (i: BreakInfo) => {
+            info = i;
+            if (onBreak) {
+                onBreak(i);
+            }
+        };
+
+        this.stepDone = done;
+        this.paused = false;
+        try {
+            this.emulator.runCycles(maxCycles);
+        }
+        finally {
+            this.onBreak = onBreak;
+            this.stepDone = null;
+        }
+
+        // Out of cycles, stop where it got to
+        if (!info) {
+            info = this.info(BreakReason.Step);
+            this.stop(info);
+        }
+        return info;
+    }
+
+    // Executes one instruction, entering calls
+    stepInto(): BreakInfo {
+        return this.runUntil(() => true, 1);
+    }
+
+    // Executes one instruction, running calls and RSTs until they return to the next one
+    stepOver(maxCycles: number = CYCLES_PER_SECOND): BreakInfo {
+        const pc = this.gb.getPC();
+        const opcode = this.mmu.read(pc);
+        if (!CALL_OPCODES.includes(opcode) && !isRST(opcode)) {
+            return this.stepInto();
+        }
+
+        const next = (pc + (isRST(opcode) ? 1 : 3)) & 0xFFFF;
+        const sp = this.gb.getSP();
+        return this.runUntil(() => this.gb.getPC() == next && this.gb.getSP() >= sp, maxCycles);
+    }
+
+    // Runs until a return leaves the current routine
+    stepOut(maxCycles: number = CYCLES_PER_SECOND): BreakInfo {
+        const sp = this.gb.getSP();
+        return this.runUntil(() => RET_OPCODES.includes(this.lastOpcode) && this.gb.getSP() > sp, maxCycles);
+    }
+
+    // Labels for disassembly, kept across ROM loads until replaced
+    setSymbols(symbols: SymbolTable | null) { this.symbols = symbols; }
+    getSymbols(): SymbolTable | null { return this.symbols; }
+
+    // count instructions from address (PC by default), as mapped now or from the given ROM bank
+    disassemble(address: number = this.gb.getPC(), count: number = 1, bank: number | null = null): Instruction[] {
+        return new Disassembler(this.mmu, this.symbols).decodeRange(address, count, bank);
+    }
+
+    // Runs until PC reaches address, in the given ROM bank if not null
+    runToCursor(address: number, bank: number | null = null, maxCycles: number = CYCLES_PER_SECOND): BreakInfo {
+        return this.runUntil(() => this.gb.getPC() == address && (bank == null || address >= 0x8000 || this.mmu.getROMBank(address) == bank), maxCycles);
+    }
+}
@@ -0,0 +1,240 @@
+import { hex } from './cartridge';
+import MMU, { MMUBase } from './mmu';
+
+export interface Instruction {
+    address: number;
+    bank: number;
+    // Opcode (with the 0xCB prefix) and operands
+    bytes: number[];
+    // RGBDS syntax, addresses shown as labels where the symbols have one
+    text: string;
+    // Address a jump, call or memory operand refers to, null for none
+    target: number | null;
+}
+
+const R = ['b', 'c', 'd', 'e', 'h', 'l', '[hl]', 'a'];
+const RP = ['bc', 'de', 'hl', 'sp'];
+const RP2 = ['bc', 'de', 'hl', 'af'];
+const CC = ['nz', 'z', 'nc', 'c'];
+const ALU = ['add a, ', 'adc a, ', 'sub ', 'sbc a, ', 'and ', 'xor ', 'or ', 'cp '];
+const ROT = ['rlc', 'rrc', 'rl', 'rr', 'sla', 'sra', 'swap', 'srl'];
+const MISC = ['rlca', 'rrca', 'rla', 'rra', 'daa', 'cpl', 'scf', 'ccf'];
+
+// Operands: n8/n16 immediates, a16 addresses, a8 addresses in 0xFF00-0xFFFF, e8 signed offsets and
+// r8 relative jump targets. Null for opcodes the CPU doesn't have.
+function mainTemplate(op: number): string | null {
+    const x = op >> 6;
+    const y = (op >> 3) & 7;
+    const z = op & 7;
+    const p = y >> 1;
+    const q = y & 1;
+
+    if (x == 1) {
+        return op == 0x76 ? 'halt' : 'ld ' + R[y] + ', ' + R[z];
+    }
+
+    if (x == 2) {
+        return ALU[y] + R[z];
+    }
+
+    if (x == 0) {
+        switch (z) {
+            case 0: return ['nop', 'ld [{a16}], sp', 'stop', 'jr {r8}'][y] || 'jr ' + CC[y - 4] + ', {r8}';
+            case 1: return q ? 'add hl, ' + RP[p] : 'ld ' + RP[p] + ', {n16}';
+            case 2: {
+                const mem = ['[bc]', '[de]', '[hl+]', '[hl-]'][p];
+                return q ? 'ld a, ' + mem : 'ld ' + mem + ', a';
+            }
+            case 3: return (q ? 'dec ' : 'inc ') + RP[p];
+            case 4: return 'inc ' + R[y];
+            case 5: return 'dec ' + R[y];
+            case 6: return 'ld ' + R[y] + ', {n8}';
+            default: return MISC[y];
+        }
+    }
+
+    switch (z) {
+        case 0: return y < 4 ? 'ret ' + CC[y] : ['ldh [{a8}], a', 'add sp, {e8}', 'ldh a, [{a8}]', 'ld hl, sp{e8}'][y - 4];
+        case 1: return q ? ['ret', 'reti', 'jp hl', 'ld sp, hl'][p] : 'pop ' + RP2[p];
+        case 2: return y < 4 ? 'jp ' + CC[y] + ', {a16}' : ['ldh [c], a', 'ld [{a16}], a', 'ldh a, [c]', 'ld a, [{a16}]'][y - 4];
+        case 3: return ({ 0: 'jp {a16}', 6: 'di', 7: 'ei' } as { [y: number]: string })[y] || null;
+        case 4: return y < 4 ? 'call ' + CC[y] + ', {a16}' : null;
+        case 5: return q ? (p == 0 ? 'call {a16}' : null) : 'push ' + RP2[p];
+        case 6: return ALU[y] + '{n8}';
+        default: return 'rst $' + hex(y * 8, 2);
+    }
+}
+
+function cbText(op: number): string {
+    const y = (op >> 3) & 7;
+    const reg = R[op & 7];
+    switch (op >> 6) {
+        case 0: return ROT[y] + ' ' + reg;
+        case 1: return 'bit ' + y + ', ' + reg;
+        case 2: return 'res ' + y + ', ' + reg;
+        default: return 'set ' + y + ', ' + reg;
+    }
+}
+
+const MAIN_TABLE = Array.from({ length: 256 }, (_, op) => op == 0xCB ? null : mainTemplate(op));
+const CB_TABLE = Array.from({ length: 256 }, (_, op) => cbText(op));
+
+const OPERAND_SIZE: { [operand: string]: number } = { n8: 1, a8: 1, e8: 1, r8: 1, n16: 2, a16: 2 };
+
+// Decodes one instruction through read. label names an address, or returns null to show it as a number.
+export function disassemble(read: (addr: number) => number, address: number, bank: number = 0,
+    label: (addr: number) => string | null = () => null): Instruction {
+    const opcode = read(address);
+    if (opcode == 0xCB) {
+        const op2 = read((address + 1) & 0xFFFF);
+        return { address, bank, bytes: [opcode, op2], text: CB_TABLE[op2], target: null };
+    }
+
+    const template = MAIN_TABLE[opcode];
+    if (template == null) {
+        return { address, bank, bytes: [opcode], text: 'db $' + hex(opcode, 2), target: null };
+    }
+
+    const operand = template.match(/\{(\w+)\}/);
+    if (!operand) {
+        return { address, bank, bytes: [opcode], text: template, target: null };
+    }
+
+    const bytes = [opcode];
+    for (let i = 0; i < OPERAND_SIZE[operand[1]]; i++) {
+        bytes.push(read((address + 1 + i) & 0xFFFF));
+    }
+
+    const v = bytes.length == 3 ? bytes[1] | (bytes[2] << 8) : bytes[1];
+    const named = (addr: number) => label(addr) || '$' + hex(addr, 4);
+    let target: number | null = null;
+    let text: string;
+    switch (operand[1]) {
+        case 'n8': text = '$' + hex(v, 2); break;
+        case 'e8': text = (v & 0x80 ? '-' : '+') + (v & 0x80 ? 0x100 - v : v); break;
+        case 'a8': target = 0xFF00 | v; text = named(target); break;
+        case 'r8': target = (address + 2 + ((v << 24) >> 24)) & 0xFFFF; text = named(target); break;
+        case 'n16': text = label(v) || '$' + hex(v, 4); break;
+        default: target = v; text = named(v); break;
+    }
+
+    return { address, bank, bytes, text: template.replace(operand[0], text), target };
+}
+
+// One line listing: bank and address, the raw bytes and the instruction
+export function formatInstruction(instr: Instruction): string {
+    return hex(instr.bank, 2) + ':' + hex(instr.address, 4) + '  ' +
+        instr.bytes.map(b => hex(b, 2)).join(' ').padEnd(8) + '  ' + instr.text;
+}
+
+// Labels by bank and address, from RGBDS .sym or no$gmb symbol files
+export class SymbolTable {
+    private byAddress: Map<number, string>;
+    private byName: Map<string, { bank: number, address: number }>;
+
+    constructor() {
+        this.byAddress = new Map();
+        this.byName = new Map();
+    }
+
+    // Lines of "BB:AAAA Label" in hex, the bank is optional. ';' starts a comment and no$gmb's
+    // "[labels]" style section headers are skipped.
+    static parse(text: string): SymbolTable {
+        const table = new SymbolTable();
+        text.split('\n').forEach((raw, i) => {
+            const line = raw.replace(/;.*/, '').trim();
+            if (line.length == 0 || line.startsWith('[')) {
+                return;
+            }
+
+            const m = line.match(/^(?:([0-9a-f]+):)?([0-9a-f]{1,4})\s+(\S+)/i);
+            if (!m) {
+                throw 'Invalid symbol on line ' + (i + 1) + ': ' + raw;
+            }
+            table.add(m[1] ? parseInt(m[1], 16) : 0, parseInt(m[2], 16), m[3]);
+        });
+        return table;
+    }
+
+    // The first label given for an address is kept for display
+    add(bank: number, address: number, name: string) {
+        const key = (bank << 16) | address;
+        if (!this.byAddress.has(key)) {
+            this.byAddress.set(key, name);
+        }
+        this.byName.set(name, { bank, address });
+    }
+
+    // RAM labels are usually listed in bank 0, so outside ROM that is tried as well
+    lookup(bank: number, address: number): string | null {
+        const name = this.byAddress.get((bank << 16) | address);
+        if (name !== undefined) {
+            return name;
+        }
+
+        return address >= MMUBase.VRAM ? this.byAddress.get(address) ?? null : null;
+    }
+
+    find(name: string): { bank: number, address: number } | null {
+        return this.byName.get(name) ?? null;
+    }
+
+    size(): number { return this.byName.size; }
+}
+
+// Disassembles from an emulator's memory, either as currently mapped or from a chosen ROM bank
+export default class Disassembler {
+    private mmu: MMU;
+    private symbols: SymbolTable | null;
+
+    constructor(mmu: MMU, symbols: SymbolTable | null = null) {
+        this.mmu = mmu;
+        this.symbols = symbols;
+    }
+
+    setSymbols(symbols: SymbolTable | null) { this.symbols = symbols; }
+    getSymbols(): SymbolTable | null { return this.symbols; }
+
+    // ROM bank an address is read from: the one given for the switchable region, else the mapped one
+    private bankOf(address: number, bank: number | null): number {
+        if (address >= MMUBase.VRAM) {
+            return 0;
+        }
+        if (bank != null && address >= MMUBase.ROMB) {
+            return bank;
+        }
+        return this.mmu.getROMBank(address);
+    }
+
+    // Label for an address, or it in hex. Switchable ROM addresses take the bank given.
+    formatAddress(address: number, bank: number | null = null): string {
+        const name = this.symbols ? this.symbols.lookup(this.bankOf(address, bank), address) : null;
+        return name || '$' + hex(address, 4);
+    }
+
+    // Decodes the instruction at address. A bank reads 0x4000-0x7FFF from that ROM bank instead of the mapped one.
+    decode(address: number, bank: number | null = null): Instruction {
+        const instrBank = this.bankOf(address, bank);
+        const read = (addr: number) => bank != null && addr >= MMUBase.ROMB && addr < MMUBase.VRAM ?
+            this.mmu.readROM(bank, addr) : this.mmu.read(addr);
+        const label = (addr: number) => {
+            // Jumps within a switchable bank stay in it
+            const b = addr >= MMUBase.ROMB && addr < MMUBase.VRAM && address >= MMUBase.ROMB && address < MMUBase.VRAM ?
+                instrBank : this.bankOf(addr, null);
+            return this.symbols ? this.symbols.lookup(b, addr) : null;
+        };
+
+        return disassemble(read, address, instrBank, label);
+    }
+
+    // count instructions following on from address
+    decodeRange(address: number, count: number, bank: number | null = null): Instruction[] {
+        const out: Instruction[] = [];
+        for (let i = 0; i < count; i++) {
+            const instr = this.decode(address, bank);
+            out.push(instr);
+            address = (address + instr.bytes.length) & 0xFFFF;
+        }
+        return out;
+    }
+}
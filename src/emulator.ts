@@ -0,0 +1,311 @@
+import APU from './apu';
+import { CartridgeHeader, CGBSupport, parseCartridgeHeader } from './cartridge';
+import Debugger, { BreakInfo } from './debugger';
+import GB, { Button, GBTimer } from './gb';
+import MMU, { IORegister } from './mmu';
+import PPU from './ppu';
+import { RTCClock } from './rtc';
+import Serial, { LinkTransport } from './serial';
+import { loadState, saveState } from './state';
+import { FRAME_CYCLES } from './timing';
+import Tracer from './trace';
+
+export interface EmulatorOptions {
+    // Run before the cartridge when given, picked by the cartridge's CGB support
+    dmgBootRom: Uint8Array | null;
+    cgbBootRom: Uint8Array | null;
+    // Creates an APU producing samples at this rate, no audio without it
+    sampleRate: number | null;
+    rtcClock: RTCClock;
+}
+
+export interface EmulatorEvents {
+    vblank: () => void;
+    serial: (sent: number, received: number) => void;
+    // Every debugger stop, including finished steps
+    breakpoint: (pc: number, info: BreakInfo) => void;
+    rumble: (active: boolean) => void;
+}
+
+export interface Registers {
+    af: number;
+    bc: number;
+    de: number;
+    hl: number;
+    sp: number;
+    pc: number;
+}
+
+const defaultOptions: EmulatorOptions = {
+    dmgBootRom: null,
+    cgbBootRom: null,
+    sampleRate: null,
+    rtcClock: RTCClock.Cycles,
+};
+
+// Owns the components of one Game Boy and steps them together, for frontends and tools to build on
+export default class Emulator {
+    private options: EmulatorOptions;
+    private transport: LinkTransport | null;
+
+    // Assigned by loadRom
+    private rom!: Uint8Array;
+    private mmu!: MMU;
+    private ppu!: PPU;
+    private gb!: GB;
+    private gbTimer!: GBTimer;
+    private serial!: Serial;
+    private apu!: APU | null;
+
+    private accFrameCycles: number;
+    private vblank: boolean;
+    private renderFrame: boolean;
+
+    private debug: Debugger;
+    private tracer: Tracer | null;
+
+    private listeners: { [K in keyof EmulatorEvents]: EmulatorEvents[K][] };
+
+    constructor(rom: Uint8Array, options: Partial<EmulatorOptions> = {}, batterySave: Uint8Array | null = null) {
+        this.options = { ...defaultOptions, ...options };
+        this.transport = null;
+        this.tracer = null;
+        this.debug = new Debugger(this);
+        this.debug.onBreak = (info: BreakInfo) => this.emit('breakpoint', info.pc, info);
+        this.listeners = { vblank: [], serial: [], breakpoint: [], rumble: [] };
+        this.accFrameCycles = 0;
+        this.vblank = false;
+        this.renderFrame = true;
+
+        this.loadRom(rom, batterySave);
+    }
+
+    // Powers on with a new cartridge, optionally restoring its battery save
+    loadRom(rom: Uint8Array, batterySave: Uint8Array | null = null) {
+        const cgb = parseCartridgeHeader(rom).cgbSupport != CGBSupport.None;
+        this.rom = rom;
+        this.mmu = new MMU(rom, cgb ? this.options.cgbBootRom : this.options.dmgBootRom);
+        this.mmu.getRTC()?.setClock(this.options.rtcClock);
+        this.mmu.onRumble = (active: boolean) => this.emit('rumble', active);
+        if (batterySave) {
+            this.mmu.importSave(batterySave);
+        }
+
+        this.ppu = new PPU(this.mmu);
+        this.ppu.onVBlank = () => {
+            this.vblank = true;
+            this.emit('vblank');
+        };
+        this.gb = new GB(this.mmu);
+        this.gbTimer = new GBTimer(this.mmu);
+        this.serial = new Serial(this.mmu);
+        this.serial.setTransport(this.transport);
+        this.serial.onTransfer = (sent: number, received: number) => this.emit('serial', sent, received);
+        this.apu = this.options.sampleRate != null ? new APU(this.mmu, this.options.sampleRate) : null;
+
+        // The CPU steps everything else as its cycles pass.
+        // Only the CPU, timer and serial clock run faster in CGB double-speed mode.
+        this.gb.onTick = (clks: number) => {
+            const dots = this.mmu.isDoubleSpeed() ? clks / 2 : clks;
+            this.ppu.Step(dots, this.renderFrame);
+            this.gbTimer.Step(clks);
+            this.serial.Step(clks);
+            if (this.apu) {
+                this.apu.Step(dots);
+            }
+            this.mmu.Step(dots);
+            this.accFrameCycles += dots;
+        };
+
+        this.accFrameCycles = 0;
+        this.vblank = false;
+        this.setTracer(this.tracer);
+        this.debug.attach();
+    }
+
+    // Power cycle, cartridge RAM survives like it would with a battery
+    reset() {
+        this.loadRom(this.rom, this.mmu.hasBattery() ? this.mmu.exportSave() : null);
+    }
+
+    on<K extends keyof EmulatorEvents>(event: K, listener: EmulatorEvents[K]) {
+        this.listeners[event].push(listener);
+    }
+
+    off<K extends keyof EmulatorEvents>(event: K, listener: EmulatorEvents[K]) {
+        const list = this.listeners[event];
+        const i = list.indexOf(listener);
+        if (i >= 0) {
+            list.splice(i, 1);
+        }
+    }
+
+    private emit<K extends keyof EmulatorEvents>(event: K, ...args: Parameters<EmulatorEvents[K]>) {
+        for (const listener of this.listeners[event]) {
+            (listener as (...a: Parameters<EmulatorEvents[K]>) => void)(...args);
+        }
+    }
+
+    // Frames end at vblank, so the picture is complete once runFrame returns, or every FRAME_CYCLES while
+    // the LCD is off. Starts the next frame when the current one is over.
+    private endFrame(): boolean {
+        const lcdOn = (this.mmu.readReg(IORegister.LCDControl) & 0x80) != 0;
+        if (!this.vblank && (lcdOn || this.accFrameCycles < FRAME_CYCLES)) {
+            return false;
+        }
+
+        this.vblank = false;
+        this.accFrameCycles = 0;
+        return true;
+    }
+
+    // Executes one instruction (or interrupt dispatch) ignoring the debugger, returns the M-cycles it took
+    step(): number {
+        const cycles = this.gb.Step();
+        this.endFrame();
+        return cycles;
+    }
+
+    // Runs to the end of the current frame. Returns false when the debugger or until, checked after every
+    // instruction, stopped it early; the next call finishes the frame.
+    runFrame(render: boolean = true, until: (() => boolean) | null = null): boolean {
+        this.renderFrame = render;
+        while (!this.endFrame()) {
+            if (this.debug.isActive() && this.debug.beforeStep()) {
+                return false;
+            }
+
+            this.gb.Step();
+            if ((this.debug.isActive() && this.debug.afterStep()) || (until && until())) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // Runs for at least the given M-cycles (single speed), stopping early like runFrame
+    runCycles(cycles: number, until: (() => boolean) | null = null): boolean {
+        let ran = 0;
+        while (ran < cycles) {
+            if (this.debug.isActive() && this.debug.beforeStep()) {
+                return false;
+            }
+
+            const start = this.accFrameCycles;
+            this.gb.Step();
+            ran += this.accFrameCycles - start;
+
+            // Keeps frame boundaries in step for runFrame
+            this.endFrame();
+
+            if ((this.debug.isActive() && this.debug.afterStep()) || (until && until())) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    getDebugger(): Debugger { return this.debug; }
+
+    // Shorthands for unconditional breakpoints in any bank
+    addBreakpoint(pc: number) { this.debug.addBreakpoint(pc); }
+
+    removeBreakpoint(pc: number) {
+        this.debug.getBreakpoints().filter(b => b.address == pc).forEach(b => this.debug.removeBreakpoint(b.id));
+    }
+
+    clearBreakpoints() {
+        this.debug.getBreakpoints().forEach(b => this.debug.removeBreakpoint(b.id));
+    }
+
+    // Kept across ROM loads, null stops tracing
+    setTracer(tracer: Tracer | null) {
+        this.tracer = tracer;
+        this.gb.onInstruction = tracer ? (pc: number) => tracer.trace(pc) : null;
+    }
+
+    getTracer(): Tracer | null { return this.tracer; }
+
+    setButton(button: Button, pressed: boolean) {
+        if (pressed) {
+            this.gb.ButtonOn(button);
+        }
+        else {
+            this.gb.ButtonOff(button);
+        }
+    }
+
+    // Kept across ROM loads, null leaves the link port unconnected
+    setLinkTransport(transport: LinkTransport | null) {
+        this.transport = transport;
+        this.serial.setTransport(transport);
+    }
+
+    getRegisters(): Registers {
+        return {
+            af: this.gb.getAF().Word(), bc: this.gb.getBC().Word(), de: this.gb.getDE().Word(), hl: this.gb.getHL().Word(),
+            sp: this.gb.getSP(), pc: this.gb.getPC(),
+        };
+    }
+
+    // Reads the bus without stepping anything
+    read(addr: number): number { return this.mmu.read(addr); }
+
+    isCGB(): boolean { return this.ppu.isCGB(); }
+    // Shades from 0 (black) to 0xFF (white), DMG only
+    getFramebuffer(): Uint8Array { return this.ppu.getFramebuffer(); }
+    // RGB555 colours, CGB only
+    getColorFramebuffer(): Uint16Array { return this.ppu.getColorFramebuffer(); }
+
+    // Interleaved stereo samples since the last call, empty without audio
+    drainSamples(): Float32Array { return this.apu ? this.apu.drainSamples() : new Float32Array(0); }
+
+    setSampleRate(sampleRate: number) {
+        this.options.sampleRate = sampleRate;
+        if (this.apu) {
+            this.apu.setSampleRate(sampleRate);
+        }
+        else {
+            this.apu = new APU(this.mmu, sampleRate);
+        }
+    }
+
+    setAudioRateAdjust(ratio: number) {
+        if (this.apu) {
+            this.apu.setRateAdjust(ratio);
+        }
+    }
+
+    getHeader(): CartridgeHeader { return this.mmu.getHeader(); }
+    hasBattery(): boolean { return this.mmu.hasBattery(); }
+
+    // Battery-backed RAM when it changed since the last call, otherwise null
+    takeDirtySave(): Uint8Array | null {
+        if (!this.mmu.hasBattery() || !this.mmu.isSaveDirty()) {
+            return null;
+        }
+
+        this.mmu.clearSaveDirty();
+        return this.mmu.exportSave();
+    }
+
+    // For a save from takeDirtySave that couldn't be stored, so the next call returns it again
+    markSaveDirty() { this.mmu.markSaveDirty(); }
+
+    saveState(): Uint8Array {
+        return saveState(this.mmu, this.gb, this.ppu, this.gbTimer, this.serial, this.apu);
+    }
+
+    loadState(data: Uint8Array) {
+        loadState(data, this.mmu, this.gb, this.ppu, this.gbTimer, this.serial, this.apu);
+        this.debug.attach();
+    }
+
+    // The components, for tools that need more than the API above
+    getMMU(): MMU { return this.mmu; }
+    getPPU(): PPU { return this.ppu; }
+    getCPU(): GB { return this.gb; }
+    getTimer(): GBTimer { return this.gbTimer; }
+    getSerial(): Serial { return this.serial; }
+    getAPU(): APU | null { return this.apu; }
+}
@@ -1,6 +1,8 @@
 import { rawListeners } from 'process';
-import MMU, { IORegister, MMUBase } from './mmu';
+import { disassemble, formatInstruction } from './disasm';
+import MMU, { IORegister, MemoryRegion, MMUBase } from './mmu';
 import './ppu';
+import { StateReader, StateWriter } from './state';
 
 export class Register {
 	private lo: number;
@@ -23,6 +25,16 @@ export class Register {
 	public Lo(): number { return this.lo; }
 	public Hi(): number { return this.hi; }
 	public Word(): number { return (this.lo << 8) + this.hi; }
+
+	serialize(w: StateWriter) {
+		w.u8(this.lo);
+		w.u8(this.hi);
+	}
+
+	deserialize(r: StateReader) {
+		this.lo = r.u8();
+		this.hi = r.u8();
+	}
 }
 
 export const enum ArithFlag {
@@ -57,52 +69,131 @@ export const enum Button {
 	A = 0x01
 };
 
-export class GBTimer {
+// Counter bit whose falling edge clocks TIMA, for each TAC frequency
+const TIMER_BITS = [1 << 9, 1 << 3, 1 << 5, 1 << 7];
+
+// DIV, TIMA, TMA and TAC, all driven by a 16-bit counter that advances every T-cycle.
+// DIV is its top byte, TIMA ticks on falling edges of the bit TAC selects.
+export class GBTimer implements MemoryRegion {
+	public readonly start = MMUBase.REGS + IORegister.Divider;
+	public readonly length = 4;
+
 	private mmu: MMU;
-	private timerClock: number;
-	private divClock: number;
+	private counter: number;
+	private tima: number;
+	private tma: number;
+	private tac: number;
+	// TIMA overflowed and reads 0 for one M-cycle before TMA is loaded
+	private overflow: boolean;
+	// TMA was loaded this M-cycle, TIMA writes are ignored and TMA writes go through to TIMA
+	private reloaded: boolean;
 
 	constructor(mmu: MMU) {
 		this.mmu = mmu;
-		this.timerClock = 0;
-		this.divClock = 0;
+		this.counter = mmu.isBootROMActive() ? 0 : 0xABCC;
+		this.tima = mmu.readReg(IORegister.TimerCounter);
+		this.tma = mmu.readReg(IORegister.TimerModulo);
+		this.tac = mmu.readReg(IORegister.TimerControl) & 0x07;
+		this.overflow = false;
+		this.reloaded = false;
+		mmu.mapRegion(this);
 	}
 
-	Step(cycles: number): void {
-		this.divClock += cycles;
-		if (this.divClock & ~0x3F) {
-			this.mmu.writeReg(IORegister.Divider, this.mmu.readReg(IORegister.Divider) + (this.divClock >> 6));
-			this.divClock &= 0x3F;
-		}
+	serialize(w: StateWriter) {
+		w.u16(this.counter);
+		w.u8(this.tima);
+		w.u8(this.tma);
+		w.u8(this.tac);
+		w.bool(this.overflow);
+		w.bool(this.reloaded);
+	}
 
-		const timerFlag = this.mmu.readReg(IORegister.TimerControl);
-		if ((timerFlag & 0x04) == 0) {
-			return;
+	deserialize(r: StateReader) {
+		this.counter = r.u16();
+		this.tima = r.u8();
+		this.tma = r.u8();
+		this.tac = r.u8();
+		this.overflow = r.bool();
+		this.reloaded = r.bool();
+	}
+
+	private timerBit(): boolean {
+		return (this.tac & 0x04) != 0 && (this.counter & TIMER_BITS[this.tac & 0x03]) != 0;
+	}
+
+	private incrementTIMA() {
+		this.tima = (this.tima + 1) & 0xFF;
+		if (this.tima == 0) {
+			this.overflow = true;
 		}
+	}
 
-		this.timerClock += cycles;
+	// DIV resets and TAC changes can drop the selected bit too, which ticks TIMA like the counter would
+	private setCounterState(update: () => void) {
+		const prev = this.timerBit();
+		update();
+		if (prev && !this.timerBit()) {
+			this.incrementTIMA();
+		}
+	}
 
-		let freq: number;
-		switch (timerFlag & 0x3) {
-			case 0: freq = 12; break;
-			case 1: freq = 18; break;
-			case 2: freq = 16; break;
-			default: freq = 14;
+	read(addr: number): number {
+		switch (addr & 0xFF) {
+			case IORegister.Divider: return this.counter >> 8;
+			case IORegister.TimerCounter: return this.tima;
+			case IORegister.TimerModulo: return this.tma;
+			default: return this.tac | 0xF8;
 		}
+	}
 
-		const shift = 20 - freq;
-		if ((this.timerClock >> shift) > 0) {
-			const step = 1 << shift;
-			do {
-				this.mmu.writeReg(IORegister.TimerCounter, this.mmu.readReg(IORegister.TimerCounter) + 1);
-				if (this.mmu.readReg(IORegister.TimerCounter) == 0) {
-					this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) | IOInterrupt.TIMA);
-					this.mmu.writeReg(IORegister.TimerCounter, this.mmu.readReg(IORegister.TimerModulo));
+	write(addr: number, v: number): void {
+		switch (addr & 0xFF) {
+			case IORegister.Divider:
+				this.setCounterState(() => this.counter = 0);
+				break;
+
+			case IORegister.TimerCounter:
+				if (!this.reloaded) {
+					this.tima = v;
+					this.overflow = false;
+				}
+				break;
+
+			case IORegister.TimerModulo:
+				this.tma = v;
+				if (this.reloaded) {
+					this.tima = v;
 				}
+				break;
+
+			default:
+				this.setCounterState(() => this.tac = v & 0x07);
+				break;
+		}
+	}
+
+	Step(cycles: number): void {
+		// Nothing can tick TIMA while it's off, so DIV just runs on
+		if ((this.tac & 0x04) == 0 && !this.overflow) {
+			this.counter = (this.counter + (cycles << 2)) & 0xFFFF;
+			this.reloaded = false;
+			return;
+		}
+
+		for (let i = 0; i < cycles; i++) {
+			this.reloaded = false;
+			if (this.overflow) {
+				this.overflow = false;
+				this.reloaded = true;
+				this.tima = this.tma;
+				this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) | IOInterrupt.TIMA);
+			}
 
-				this.timerClock -= step;
+			const prev = this.timerBit();
+			this.counter = (this.counter + 4) & 0xFFFF;
+			if (prev && !this.timerBit()) {
+				this.incrementTIMA();
 			}
-			while ((this.timerClock >> shift) > 0);
 		}
 	}
 }
@@ -161,12 +252,24 @@ export default class GB {
 	private haltBug: boolean;
 	private buttons: number;
 
+	// Called with the M-cycles the CPU spends, as they pass, so the rest of the system can be
+	// stepped in lockstep with each memory access instead of after whole instructions
+	public onTick: ((cycles: number) => void) | null;
+	// Called with the IOInterrupt bit after dispatching to its vector
+	public onInterrupt: ((interrupt: number) => void) | null;
+	// Called with PC before each instruction is fetched, for tracing
+	public onInstruction: ((pc: number) => void) | null;
+	private ticked: number;
+	// M-cycles since power on, not kept in save states
+	private cycleCount: number;
+
 	getPC(): number { return this.pc; }
 	getSP(): number { return this.sp; }
 	getAF(): Register { return this.af; }
 	getBC(): Register { return this.bc; }
 	getDE(): Register { return this.de; }
 	getHL(): Register { return this.hl; }
+	getCycleCount(): number { return this.cycleCount; }
 
 	constructor(mmu: MMU) {
 		this.mmu = mmu;
@@ -176,55 +279,104 @@ export default class GB {
 		this.de = new Register();
 		this.hl = new Register();
 
-		this.af.setWord(0x01B0);
-		this.bc.setWord(0x0013);
-		this.de.setWord(0x00D8);
-		this.hl.setWord(0x014D);
-
-		this.pc = 0x100;
-		this.sp = 0xFFFE;
-
 		this.intStat = 0;
 		this.halt = false;
 		this.haltBug = false;
 		this.buttons = 0;
+		this.onTick = null;
+		this.onInterrupt = null;
+		this.onInstruction = null;
+		this.ticked = 0;
+		this.cycleCount = 0;
+
+		// With a boot ROM everything starts zeroed and the boot ROM sets up the rest
+		this.pc = 0;
+		this.sp = 0;
+		if (!mmu.isBootROMActive()) {
+			this.postBootState();
+		}
+	}
+
+	// Register and IO values left behind by the boot ROM
+	private postBootState() {
+		if (this.mmu.isCGB()) {
+			this.af.setWord(0x1180);
+			this.bc.setWord(0x0000);
+			this.de.setWord(0xFF56);
+			this.hl.setWord(0x000D);
+		}
+		else {
+			this.af.setWord(0x01B0);
+			this.bc.setWord(0x0013);
+			this.de.setWord(0x00D8);
+			this.hl.setWord(0x014D);
+		}
+
+		this.pc = 0x100;
+		this.sp = 0xFFFE;
+
+		this.mmu.writeReg(IORegister.Joypad, 0xCF);
+		this.mmu.writeReg(IORegister.SerialControl, 0x7E);
+		this.mmu.writeReg(IORegister.TimerCounter, 0x00);
+		this.mmu.writeReg(IORegister.TimerModulo, 0x00);
+		this.mmu.writeReg(IORegister.TimerControl, 0x00);
+		this.mmu.write(0xFF10, 0x80);
+		this.mmu.write(0xFF11, 0xBF);
+		this.mmu.write(0xFF12, 0xF3);
+		this.mmu.write(0xFF14, 0xBF);
+		this.mmu.write(0xFF16, 0x3F);
+		this.mmu.write(0xFF17, 0x00);
+		this.mmu.write(0xFF19, 0xBF);
+		this.mmu.write(0xFF1A, 0x7F);
+		this.mmu.write(0xFF1B, 0xFF);
+		this.mmu.write(0xFF1C, 0x9F);
+		this.mmu.write(0xFF1E, 0xBF);
+		this.mmu.write(0xFF20, 0xFF);
+		this.mmu.write(0xFF21, 0x00);
+		this.mmu.write(0xFF22, 0x00);
+		this.mmu.write(0xFF23, 0xBF);
+		this.mmu.write(0xFF24, 0x77);
+		this.mmu.write(0xFF25, 0xF3);
+		this.mmu.write(0xFF26, 0xF1);
+		this.mmu.writeReg(IORegister.LCDControl, 0x91);
+		this.mmu.writeReg(IORegister.LCDStat, 0x00);
+		this.mmu.writeReg(IORegister.ScrollY, 0x00);
+		this.mmu.writeReg(IORegister.ScrollX, 0x00);
+		this.mmu.writeReg(IORegister.LCDY, 0x00);
+		this.mmu.writeReg(IORegister.LCDYCompare, 0x00);
+		this.mmu.writeReg(IORegister.BackgroundPalette, 0xFC);
+		this.mmu.writeReg(IORegister.ObjectPalette0, 0xFF);
+		this.mmu.writeReg(IORegister.ObjectPalette1, 0xFF);
+		this.mmu.writeReg(IORegister.WindowY, 0x00);
+		this.mmu.writeReg(IORegister.WindowX, 0x00);
+		this.mmu.writeReg(IORegister.BootROMDisable, 1);
+		this.mmu.write(0xFFFF, 0x00);
+	}
+
+	serialize(w: StateWriter) {
+		this.af.serialize(w);
+		this.bc.serialize(w);
+		this.de.serialize(w);
+		this.hl.serialize(w);
+		w.u16(this.sp);
+		w.u16(this.pc);
+		w.u8(this.intStat);
+		w.bool(this.halt);
+		w.bool(this.haltBug);
+		w.u8(this.buttons);
+	}
 
-		mmu.writeReg(IORegister.Joypad, 0xCF);
-		mmu.writeReg(IORegister.SerialControl, 0x7E);
-		mmu.writeReg(IORegister.TimerCounter, 0x00);
-		mmu.writeReg(IORegister.TimerModulo, 0x00);
-		mmu.writeReg(IORegister.TimerControl, 0x00);
-		mmu.write(0xFF10, 0x80);
-		mmu.write(0xFF11, 0xBF);
-		mmu.write(0xFF12, 0xF3);
-		mmu.write(0xFF14, 0xBF);
-		mmu.write(0xFF16, 0x3F);
-		mmu.write(0xFF17, 0x00);
-		mmu.write(0xFF19, 0xBF);
-		mmu.write(0xFF1A, 0x7F);
-		mmu.write(0xFF1B, 0xFF);
-		mmu.write(0xFF1C, 0x9F);
-		mmu.write(0xFF1E, 0xBF);
-		mmu.write(0xFF20, 0xFF);
-		mmu.write(0xFF21, 0x00);
-		mmu.write(0xFF22, 0x00);
-		mmu.write(0xFF23, 0xBF);
-		mmu.write(0xFF24, 0x77);
-		mmu.write(0xFF25, 0xF3);
-		mmu.write(0xFF26, 0xF1);
-		mmu.writeReg(IORegister.LCDControl, 0x91);
-		mmu.writeReg(IORegister.LCDStat, 0x00);
-		mmu.writeReg(IORegister.ScrollY, 0x00);
-		mmu.writeReg(IORegister.ScrollX, 0x00);
-		mmu.writeReg(IORegister.LCDY, 0x00);
-		mmu.writeReg(IORegister.LCDYCompare, 0x00);
-		mmu.writeReg(IORegister.BackgroundPalette, 0xFC);
-		mmu.writeReg(IORegister.ObjectPalette0, 0xFF);
-		mmu.writeReg(IORegister.ObjectPalette1, 0xFF);
-		mmu.writeReg(IORegister.WindowY, 0x00);
-		mmu.writeReg(IORegister.WindowX, 0x00);
-		mmu.writeReg(IORegister.BootROMDisable, 1);
-		mmu.write(0xFFFF, 0x00);
+	deserialize(r: StateReader) {
+		this.af.deserialize(r);
+		this.bc.deserialize(r);
+		this.de.deserialize(r);
+		this.hl.deserialize(r);
+		this.sp = r.u16();
+		this.pc = r.u16();
+		this.intStat = r.u8();
+		this.halt = r.bool();
+		this.haltBug = r.bool();
+		this.buttons = r.u8();
 	}
 
 	static toUnsigned8(v: number): number {
@@ -237,7 +389,31 @@ export default class GB {
 		}
 	}
 
-	private imm8 = () => this.mmu.read(this.pc++);
+	private tick(cycles: number) {
+		this.ticked += cycles;
+		if (this.onTick) {
+			this.onTick(cycles);
+		}
+	}
+
+	// Each bus access takes one M-cycle, which passes before the access lands
+	private read(addr: number): number {
+		this.tick(1);
+		return this.mmu.cpuRead(addr);
+	}
+
+	private write(addr: number, v: number) {
+		this.tick(1);
+		this.mmu.cpuWrite(addr, v);
+	}
+
+	// Opcode and operand fetches, which aren't data reads to watchpoints
+	private fetch(addr: number): number {
+		this.tick(1);
+		return this.mmu.cpuRead(addr, true);
+	}
+
+	private imm8 = () => this.fetch(this.pc++);
 	private ld16 = () => new Register().setHi(this.imm8()).setLo(this.imm8());
 	private imm16 = () => this.ld16().Word();
 
@@ -247,14 +423,15 @@ export default class GB {
 	private aflagIsSet = (flag: ArithFlag) => (this.af.Hi() & flag) != 0;
 
 	private push16(reg: Register) {
-		this.mmu.write(--this.sp, reg.Lo()); this.sp &= 0xFFFF;
-		this.mmu.write(--this.sp, reg.Hi()); this.sp &= 0xFFFF;
+		this.tick(1);
+		this.write(--this.sp, reg.Lo()); this.sp &= 0xFFFF;
+		this.write(--this.sp, reg.Hi()); this.sp &= 0xFFFF;
 	}
 
 	private pop16(): Register {
 		const reg = new Register();
-		reg.setHi(this.mmu.read(this.sp++)); this.sp &= 0xFFFF;
-		reg.setLo(this.mmu.read(this.sp++)); this.sp &= 0xFFFF;
+		reg.setHi(this.read(this.sp++)); this.sp &= 0xFFFF;
+		reg.setLo(this.read(this.sp++)); this.sp &= 0xFFFF;
 		return reg;
 	}
 
@@ -460,6 +637,8 @@ export default class GB {
 
 	private jmpRetCond(cond: boolean) {
 		if (cond) {
+			// The condition check takes an internal cycle before the pops, setting PC one after
+			this.tick(1);
 			this.jmpRet();
 			return 3;
 		}
@@ -476,7 +655,7 @@ export default class GB {
 			case 3: return this.de.Hi();
 			case 4: return this.hl.Lo();
 			case 5: return this.hl.Hi();
-			case 6: return this.mmu.read(this.hl.Word());
+			case 6: return this.read(this.hl.Word());
 			case 7: return this.af.Lo();
 		}
 		return 0xFF;
@@ -490,7 +669,7 @@ export default class GB {
 			case 3: this.de.setHi(v); return;
 			case 4: this.hl.setLo(v); return;
 			case 5: this.hl.setHi(v); return;
-			case 6: this.mmu.write(this.hl.Word(), v); return;
+			case 6: this.write(this.hl.Word(), v); return;
 			case 7: this.af.setLo(v); return;
 		}
 	}
@@ -539,7 +718,19 @@ export default class GB {
 	ButtonOn(btn: Button) { this.buttons |= btn; }
 	ButtonOff(btn: Button) { this.buttons &= ~btn; }
 
+	// Returns the M-cycles taken, all of which have been passed to onTick
 	Step(): number {
+		this.ticked = 0;
+		const cycles = Math.max(this.execute(), this.ticked);
+		if (cycles > this.ticked) {
+			this.tick(cycles - this.ticked);
+		}
+
+		this.cycleCount += cycles;
+		return cycles;
+	}
+
+	private execute(): number {
 		let addCycles = 0;
 		const invButtons = this.buttons ^ 0xFF;
 		const regJoystick = this.mmu.readReg(IORegister.Joypad);
@@ -563,11 +754,20 @@ export default class GB {
 			if ((this.intStat & IOInterrupt.Stat_Enabled) != 0) {
 				for (let i = 0; i < 5; i++) {
 					if ((irq & (1 << i)) != 0) {
+						// Two wait states, the push (with its own internal cycle) and setting PC.
+						// IF is re-read as other interrupts may have been raised while dispatching.
 						this.intStat &= ~IOInterrupt.Stat_Enabled;
-						addCycles += 2;
+						addCycles += 5;
+						this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) & ~(1 << i));
+						this.tick(1);
 						this.jmpCall(0x40 + (i << 3));
-						this.mmu.writeReg(IORegister.InterruptFlag, intFlag & ~(1 << i));
-						break;
+						this.tick(1);
+						if (this.onInterrupt) {
+							this.onInterrupt(1 << i);
+						}
+
+						// Dispatch is a step of its own, so the handler starts on the next one
+						return addCycles;
 					}
 				}
 			}
@@ -583,6 +783,10 @@ export default class GB {
 			this.intStat &= ~IOInterrupt.Stat_Pending
 		}
 
+		if (this.onInstruction) {
+			this.onInstruction(this.pc);
+		}
+
 		const pc0 = this.pc;
 		const opcode1: number = this.imm8();
 
@@ -597,17 +801,17 @@ export default class GB {
 
 		switch (opcode1) {
 			case 0x0: break;
-			case 0x10: break;
+			case 0x10: this.mmu.switchSpeed(); break;
 
 			case 0x01: this.bc = this.ld16(); break;
 			case 0x11: this.de = this.ld16(); break;
 			case 0x21: this.hl = this.ld16(); break;
 			case 0x31: this.sp = this.ld16().Word(); break;
 
-			case 0x02: this.mmu.write(this.bc.Word(), this.af.Lo()); break;
-			case 0x12: this.mmu.write(this.de.Word(), this.af.Lo()); break;
-			case 0x22: this.mmu.write(this.hl.Word(), this.af.Lo()); this.hl.setWord(this.hl.Word() + 1); break;
-			case 0x32: this.mmu.write(this.hl.Word(), this.af.Lo()); this.hl.setWord(this.hl.Word() - 1); break;
+			case 0x02: this.write(this.bc.Word(), this.af.Lo()); break;
+			case 0x12: this.write(this.de.Word(), this.af.Lo()); break;
+			case 0x22: this.write(this.hl.Word(), this.af.Lo()); this.hl.setWord(this.hl.Word() + 1); break;
+			case 0x32: this.write(this.hl.Word(), this.af.Lo()); this.hl.setWord(this.hl.Word() - 1); break;
 
 			case 0x03: this.bc.setWord(this.bc.Word() + 1); break;
 			case 0x13: this.de.setWord(this.de.Word() + 1); break;
@@ -618,8 +822,8 @@ export default class GB {
 			case 0x14: this.de.setLo(this.incr8(this.de.Lo())); break;
 			case 0x24: this.hl.setLo(this.incr8(this.hl.Lo())); break;
 			case 0x34: {
-				const v = this.incr8(this.mmu.read(this.hl.Word()));
-				this.mmu.write(this.hl.Word(), v);
+				const v = this.incr8(this.read(this.hl.Word()));
+				this.write(this.hl.Word(), v);
 				break;
 			}
 
@@ -627,15 +831,15 @@ export default class GB {
 			case 0x15: this.de.setLo(this.decr8(this.de.Lo())); break;
 			case 0x25: this.hl.setLo(this.decr8(this.hl.Lo())); break;
 			case 0x35: {
-				const v = this.decr8(this.mmu.read(this.hl.Word()));
-				this.mmu.write(this.hl.Word(), v);
+				const v = this.decr8(this.read(this.hl.Word()));
+				this.write(this.hl.Word(), v);
 				break;
 			}
 
 			case 0x06: this.bc.setLo(this.imm8()); break;
 			case 0x16: this.de.setLo(this.imm8()); break;
 			case 0x26: this.hl.setLo(this.imm8()); break;
-			case 0x36: this.mmu.write(this.hl.Word(), this.imm8()); break;
+			case 0x36: this.write(this.hl.Word(), this.imm8()); break;
 
 			case 0x07: this.aflagClear(ArithFlag.Z); this.aflagClear(ArithFlag.H); this.aflagClear(ArithFlag.N);
 				this.aflagCond(ArithFlag.C, (this.af.Lo() & 0x80) != 0); this.af.setLo((this.af.Lo() << 1) | (this.af.Lo() >> 7)); break;
@@ -686,8 +890,8 @@ export default class GB {
 
 			case 0x08: {
 				let addr = this.imm16();
-				this.mmu.write(addr++, this.sp & 0xFF);
-				this.mmu.write(addr++, (this.sp & 0xFF00) >> 8);
+				this.write(addr++, this.sp & 0xFF);
+				this.write(addr++, (this.sp & 0xFF00) >> 8);
 				break;
 			}
 
@@ -723,10 +927,10 @@ export default class GB {
 			case 0x2B: this.hl.setWord(this.hl.Word() - 1); break;
 			case 0x3B: --this.sp; this.sp &= 0xFFFF; break;
 
-			case 0x0A: this.af.setLo(this.mmu.read(this.bc.Word())); break;
-			case 0x1A: this.af.setLo(this.mmu.read(this.de.Word())); break;
-			case 0x2A: this.af.setLo(this.mmu.read(this.hl.Word())); this.hl.setWord(this.hl.Word() + 1); break;
-			case 0x3A: this.af.setLo(this.mmu.read(this.hl.Word())); this.hl.setWord(this.hl.Word() - 1); break;
+			case 0x0A: this.af.setLo(this.read(this.bc.Word())); break;
+			case 0x1A: this.af.setLo(this.read(this.de.Word())); break;
+			case 0x2A: this.af.setLo(this.read(this.hl.Word())); this.hl.setWord(this.hl.Word() + 1); break;
+			case 0x3A: this.af.setLo(this.read(this.hl.Word())); this.hl.setWord(this.hl.Word() - 1); break;
 
 			case 0x0C: this.bc.setHi(this.incr8(this.bc.Hi())); break;
 			case 0x1C: this.de.setHi(this.incr8(this.de.Hi())); break;
@@ -749,7 +953,7 @@ export default class GB {
 			case 0x43: this.bc.setLo(this.de.Hi()); break;
 			case 0x44: this.bc.setLo(this.hl.Lo()); break;
 			case 0x45: this.bc.setLo(this.hl.Hi()); break;
-			case 0x46: this.bc.setLo(this.mmu.read(this.hl.Word())); break;
+			case 0x46: this.bc.setLo(this.read(this.hl.Word())); break;
 			case 0x47: this.bc.setLo(this.af.Lo()); break;
 
 			case 0x48: this.bc.setHi(this.bc.Lo()); break;
@@ -758,7 +962,7 @@ export default class GB {
 			case 0x4B: this.bc.setHi(this.de.Hi()); break;
 			case 0x4C: this.bc.setHi(this.hl.Lo()); break;
 			case 0x4D: this.bc.setHi(this.hl.Hi()); break;
-			case 0x4E: this.bc.setHi(this.mmu.read(this.hl.Word())); break;
+			case 0x4E: this.bc.setHi(this.read(this.hl.Word())); break;
 			case 0x4F: this.bc.setHi(this.af.Lo()); break;
 
 			case 0x50: this.de.setLo(this.bc.Lo()); break;
@@ -767,7 +971,7 @@ export default class GB {
 			case 0x53: this.de.setLo(this.de.Hi()); break;
 			case 0x54: this.de.setLo(this.hl.Lo()); break;
 			case 0x55: this.de.setLo(this.hl.Hi()); break;
-			case 0x56: this.de.setLo(this.mmu.read(this.hl.Word())); break;
+			case 0x56: this.de.setLo(this.read(this.hl.Word())); break;
 			case 0x57: this.de.setLo(this.af.Lo()); break;
 
 			case 0x58: this.de.setHi(this.bc.Lo()); break;
@@ -776,7 +980,7 @@ export default class GB {
 			case 0x5B: this.de.setHi(this.de.Hi()); break;
 			case 0x5C: this.de.setHi(this.hl.Lo()); break;
 			case 0x5D: this.de.setHi(this.hl.Hi()); break;
-			case 0x5E: this.de.setHi(this.mmu.read(this.hl.Word())); break;
+			case 0x5E: this.de.setHi(this.read(this.hl.Word())); break;
 			case 0x5F: this.de.setHi(this.af.Lo()); break;
 
 			case 0x60: this.hl.setLo(this.bc.Lo()); break;
@@ -785,7 +989,7 @@ export default class GB {
 			case 0x63: this.hl.setLo(this.de.Hi()); break;
 			case 0x64: this.hl.setLo(this.hl.Lo()); break;
 			case 0x65: this.hl.setLo(this.hl.Hi()); break;
-			case 0x66: this.hl.setLo(this.mmu.read(this.hl.Word())); break;
+			case 0x66: this.hl.setLo(this.read(this.hl.Word())); break;
 			case 0x67: this.hl.setLo(this.af.Lo()); break;
 
 			case 0x68: this.hl.setHi(this.bc.Lo()); break;
@@ -794,22 +998,22 @@ export default class GB {
 			case 0x6B: this.hl.setHi(this.de.Hi()); break;
 			case 0x6C: this.hl.setHi(this.hl.Lo()); break;
 			case 0x6D: this.hl.setHi(this.hl.Hi()); break;
-			case 0x6E: this.hl.setHi(this.mmu.read(this.hl.Word())); break;
+			case 0x6E: this.hl.setHi(this.read(this.hl.Word())); break;
 			case 0x6F: this.hl.setHi(this.af.Lo()); break;
 
-			case 0x70: this.mmu.write(this.hl.Word(), this.bc.Lo()); break;
-			case 0x71: this.mmu.write(this.hl.Word(), this.bc.Hi()); break;
-			case 0x72: this.mmu.write(this.hl.Word(), this.de.Lo()); break;
-			case 0x73: this.mmu.write(this.hl.Word(), this.de.Hi()); break;
-			case 0x74: this.mmu.write(this.hl.Word(), this.hl.Lo()); break;
-			case 0x75: this.mmu.write(this.hl.Word(), this.hl.Hi()); break;
+			case 0x70: this.write(this.hl.Word(), this.bc.Lo()); break;
+			case 0x71: this.write(this.hl.Word(), this.bc.Hi()); break;
+			case 0x72: this.write(this.hl.Word(), this.de.Lo()); break;
+			case 0x73: this.write(this.hl.Word(), this.de.Hi()); break;
+			case 0x74: this.write(this.hl.Word(), this.hl.Lo()); break;
+			case 0x75: this.write(this.hl.Word(), this.hl.Hi()); break;
 
 			case 0x76:
 				this.halt = true;
 				this.haltBug = (this.intStat & IOInterrupt.Stat_Enabled) == 0;
 				break;
 
-			case 0x77: this.mmu.write(this.hl.Word(), this.af.Lo()); break;
+			case 0x77: this.write(this.hl.Word(), this.af.Lo()); break;
 
 			case 0x78: this.af.setLo(this.bc.Lo()); break;
 			case 0x79: this.af.setLo(this.bc.Hi()); break;
@@ -817,7 +1021,7 @@ export default class GB {
 			case 0x7B: this.af.setLo(this.de.Hi()); break;
 			case 0x7C: this.af.setLo(this.hl.Lo()); break;
 			case 0x7D: this.af.setLo(this.hl.Hi()); break;
-			case 0x7E: this.af.setLo(this.mmu.read(this.hl.Word())); break;
+			case 0x7E: this.af.setLo(this.read(this.hl.Word())); break;
 			case 0x7F: this.af.setLo(this.af.Lo()); break;
 
 			case 0x80: this.af.setLo(this.add8(this.af.Lo(), this.bc.Lo(), false)); break;
@@ -826,7 +1030,7 @@ export default class GB {
 			case 0x83: this.af.setLo(this.add8(this.af.Lo(), this.de.Hi(), false)); break;
 			case 0x84: this.af.setLo(this.add8(this.af.Lo(), this.hl.Lo(), false)); break;
 			case 0x85: this.af.setLo(this.add8(this.af.Lo(), this.hl.Hi(), false)); break;
-			case 0x86: this.af.setLo(this.add8(this.af.Lo(), this.mmu.read(this.hl.Word()), false)); break;
+			case 0x86: this.af.setLo(this.add8(this.af.Lo(), this.read(this.hl.Word()), false)); break;
 			case 0x87: this.af.setLo(this.add8(this.af.Lo(), this.af.Lo(), false)); break;
 			case 0xC6: this.af.setLo(this.add8(this.af.Lo(), this.imm8(), false)); break;
 
@@ -836,7 +1040,7 @@ export default class GB {
 			case 0x8B: this.af.setLo(this.add8(this.af.Lo(), this.de.Hi(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x8C: this.af.setLo(this.add8(this.af.Lo(), this.hl.Lo(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x8D: this.af.setLo(this.add8(this.af.Lo(), this.hl.Hi(), this.aflagIsSet(ArithFlag.C))); break;
-			case 0x8E: this.af.setLo(this.add8(this.af.Lo(), this.mmu.read(this.hl.Word()), this.aflagIsSet(ArithFlag.C))); break;
+			case 0x8E: this.af.setLo(this.add8(this.af.Lo(), this.read(this.hl.Word()), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x8F: this.af.setLo(this.add8(this.af.Lo(), this.af.Lo(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0xCE: this.af.setLo(this.add8(this.af.Lo(), this.imm8(), this.aflagIsSet(ArithFlag.C))); break;
 
@@ -846,7 +1050,7 @@ export default class GB {
 			case 0x93: this.af.setLo(this.sub8(this.af.Lo(), this.de.Hi(), false)); break;
 			case 0x94: this.af.setLo(this.sub8(this.af.Lo(), this.hl.Lo(), false)); break;
 			case 0x95: this.af.setLo(this.sub8(this.af.Lo(), this.hl.Hi(), false)); break;
-			case 0x96: this.af.setLo(this.sub8(this.af.Lo(), this.mmu.read(this.hl.Word()), false)); break;
+			case 0x96: this.af.setLo(this.sub8(this.af.Lo(), this.read(this.hl.Word()), false)); break;
 			case 0x97: this.af.setLo(this.sub8(this.af.Lo(), this.af.Lo(), false)); break;
 			case 0xD6: this.af.setLo(this.sub8(this.af.Lo(), this.imm8(), false)); break;
 
@@ -856,7 +1060,7 @@ export default class GB {
 			case 0x9B: this.af.setLo(this.sub8(this.af.Lo(), this.de.Hi(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x9C: this.af.setLo(this.sub8(this.af.Lo(), this.hl.Lo(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x9D: this.af.setLo(this.sub8(this.af.Lo(), this.hl.Hi(), this.aflagIsSet(ArithFlag.C))); break;
-			case 0x9E: this.af.setLo(this.sub8(this.af.Lo(), this.mmu.read(this.hl.Word()), this.aflagIsSet(ArithFlag.C))); break;
+			case 0x9E: this.af.setLo(this.sub8(this.af.Lo(), this.read(this.hl.Word()), this.aflagIsSet(ArithFlag.C))); break;
 			case 0x9F: this.af.setLo(this.sub8(this.af.Lo(), this.af.Lo(), this.aflagIsSet(ArithFlag.C))); break;
 			case 0xDE: this.af.setLo(this.sub8(this.af.Lo(), this.imm8(), this.aflagIsSet(ArithFlag.C))); break;
 
@@ -866,7 +1070,7 @@ export default class GB {
 			case 0xA3: this.and(this.de.Hi()); break;
 			case 0xA4: this.and(this.hl.Lo()); break;
 			case 0xA5: this.and(this.hl.Hi()); break;
-			case 0xA6: this.and(this.mmu.read(this.hl.Word())); break;
+			case 0xA6: this.and(this.read(this.hl.Word())); break;
 			case 0xA7: this.and(this.af.Lo()); break;
 			case 0xE6: this.and(this.imm8()); break;
 
@@ -876,7 +1080,7 @@ export default class GB {
 			case 0xAB: this.xor(this.de.Hi()); break;
 			case 0xAC: this.xor(this.hl.Lo()); break;
 			case 0xAD: this.xor(this.hl.Hi()); break;
-			case 0xAE: this.xor(this.mmu.read(this.hl.Word())); break;
+			case 0xAE: this.xor(this.read(this.hl.Word())); break;
 			case 0xAF: this.xor(this.af.Lo()); break;
 			case 0xEE: this.xor(this.imm8()); break;
 
@@ -886,7 +1090,7 @@ export default class GB {
 			case 0xB3: this.or(this.de.Hi()); break;
 			case 0xB4: this.or(this.hl.Lo()); break;
 			case 0xB5: this.or(this.hl.Hi()); break;
-			case 0xB6: this.or(this.mmu.read(this.hl.Word())); break;
+			case 0xB6: this.or(this.read(this.hl.Word())); break;
 			case 0xB7: this.or(this.af.Lo()); break;
 			case 0xF6: this.or(this.imm8()); break;
 
@@ -896,7 +1100,7 @@ export default class GB {
 			case 0xBB: this.sub8(this.af.Lo(), this.de.Hi(), false); break;
 			case 0xBC: this.sub8(this.af.Lo(), this.hl.Lo(), false); break;
 			case 0xBD: this.sub8(this.af.Lo(), this.hl.Hi(), false); break;
-			case 0xBE: this.sub8(this.af.Lo(), this.mmu.read(this.hl.Word()), false); break;
+			case 0xBE: this.sub8(this.af.Lo(), this.read(this.hl.Word()), false); break;
 			case 0xBF: this.sub8(this.af.Lo(), this.af.Lo(), false); break;
 			case 0xFE: this.sub8(this.af.Lo(), this.imm8(), false); break;
 
@@ -910,8 +1114,8 @@ export default class GB {
 			case 0xE5: this.push16(this.hl); break;
 			case 0xF5: this.push16(this.af); break;
 
-			case 0xEA: this.mmu.write(this.imm16(), this.af.Lo()); break;
-			case 0xFA: this.af.setLo(this.mmu.read(this.imm16())); break;
+			case 0xEA: this.write(this.imm16(), this.af.Lo()); break;
+			case 0xFA: this.af.setLo(this.read(this.imm16())); break;
 			case 0xE9: this.pc = this.hl.Word(); break;
 
 			case 0xC3: {
@@ -927,10 +1131,10 @@ export default class GB {
 			case 0xD2: addCycles += this.jmpAbsCond(this.imm16(), !this.aflagIsSet(ArithFlag.C)); break;
 			case 0xDA: addCycles += this.jmpAbsCond(this.imm16(), this.aflagIsSet(ArithFlag.C)); break;
 
-			case 0xE0: this.mmu.write(0xFF00 + this.imm8(), this.af.Lo()); break;
-			case 0xE2: this.mmu.write(0xFF00 + this.bc.Hi(), this.af.Lo()); break;
-			case 0xF0: this.af.setLo(this.mmu.read(0xFF00 + this.imm8())); break;
-			case 0xF2: this.af.setLo(this.mmu.read(0xFF00 + this.bc.Hi())); break;
+			case 0xE0: this.write(0xFF00 + this.imm8(), this.af.Lo()); break;
+			case 0xE2: this.write(0xFF00 + this.bc.Hi(), this.af.Lo()); break;
+			case 0xF0: this.af.setLo(this.read(0xFF00 + this.imm8())); break;
+			case 0xF2: this.af.setLo(this.read(0xFF00 + this.bc.Hi())); break;
 
 			case 0x18: {
 				const v = this.imm8();
@@ -977,7 +1181,8 @@ export default class GB {
 			case 0xCB: this.procCB(opcode2); break;
 
 			default:
-				throw 'Unhandled opcode ' + opcode1;
+				throw 'Unhandled opcode at ' + formatInstruction(disassemble(a => this.mmu.read(a), pc0,
+					pc0 < MMUBase.VRAM ? this.mmu.getROMBank(pc0) : 0));
 		}
 
 		addCycles += opcode1 == 0xCB ? GB.INSTR_CYCLES_CB[opcode2] : GB.INSTR_CYCLES[opcode1];
@@ -1,6 +1,16 @@
-import GB, { Button, GBTimer } from './gb';
-import MMU from './/mmu';
-import PPU from './ppu';
+import AudioOutput from './audio';
+import { CartridgeHeader, parseCartridgeHeader } from './cartridge';
+import { BreakInfo, BreakReason } from './debugger';
+import { formatInstruction, SymbolTable } from './disasm';
+import Emulator from './emulator';
+import { Button } from './gb';
+import { RTCClock } from './rtc';
+import { MemoryPanel, VRAMPanel } from './panels';
+import Printer, { PrintedImage } from './printer';
+import Rewind from './rewind';
+import { loadBatterySave, readStateSlot, romSaveKey, storeBatterySave, writeStateSlot } from './storage';
+import FramePacer, { SpeedControl, SyncMode, UNTHROTTLED_BUDGET } from './timing';
+import Tracer, { TraceFormat } from './trace';
 import 'index.less';
 
 // https://github.com/CrossVR/emulator-shaders/blob/master/assets/lcd3x.shader
@@ -37,6 +47,25 @@ void main() {
 }
 `
 
+// CGB frames arrive as RGB555 and are expanded here
+const shaderSourceCGBFS: string = `
+precision mediump float;
+precision highp usampler2D;
+in vec2 frag_texcoord;
+out vec4 frag_color;
+uniform usampler2D tex;
+uniform sampler2D tex_grid;
+
+void main() {
+    const vec2 texsize = vec2(160.0, 144.0);
+
+    float grid = texture(tex_grid, frag_texcoord * texsize).r;
+    uint rgb555 = texelFetch(tex, ivec2(min(frag_texcoord * texsize, texsize - 1.0)), 0).r;
+    vec3 rgb = vec3(float(rgb555 & 31u), float((rgb555 >> 5) & 31u), float((rgb555 >> 10) & 31u)) / 31.0;
+    frag_color = vec4(mix(vec3(1.0), rgb, grid), 1.0);
+}
+`
+
 function glCreateProgram(gl: WebGL2RenderingContext, vs: WebGLShader, fs: WebGLShader): WebGLProgram {
     const program = gl.createProgram();
     if (!program) {
@@ -77,38 +106,187 @@ function updateClientSize() {
     canvasElement.height = 144 * scale;
 }
 
+// Chrome's gamepad rumble, which the DOM typings don't have yet
+interface VibratingGamepad extends Gamepad {
+    vibrationActuator: {
+        playEffect?(type: 'dual-rumble', params: { duration: number, strongMagnitude: number, weakMagnitude: number }): Promise<string>;
+        reset?(): Promise<string>;
+    } | null;
+}
+
+function canVibrate(pad: Gamepad): pad is VibratingGamepad {
+    return 'vibrationActuator' in pad;
+}
+
 interface ROM {
     title: string,
-    data: Uint8Array
+    header: CartridgeHeader,
+    data: Uint8Array,
+    symbols: SymbolTable | null
+}
+
+async function fetchROM(url: string): Promise<ROM> {
+    const data = new Uint8Array(await (await fetch(url)).arrayBuffer());
+    const header = parseCartridgeHeader(data);
+    const title = header.title || url.substr(url.lastIndexOf('/') + 1);
+    return { title: 'ROM: ' + title, header, data, symbols: await fetchSymbols(url.replace(/\.\w+$/, '.sym')) };
+}
+
+// RGBDS or no$gmb symbols next to the ROM label the debugger's disassembly when present
+async function fetchSymbols(url: string): Promise<SymbolTable | null> {
+    try {
+        const res = await fetch(url);
+        return res.ok ? SymbolTable.parse(await res.text()) : null;
+    }
+    catch (e) {
+        return null;
+    }
+}
+
+// Boot ROMs aren't distributed with the emulator, pass their URLs as ?dmg_boot=...&cgb_boot=...
+async function fetchBootROM(param: string): Promise<Uint8Array | null> {
+    const url = new URLSearchParams(window.location.search).get(param);
+    if (!url) {
+        return null;
+    }
+
+    try {
+        const res = await fetch(url);
+        if (!res.ok) {
+            throw res.statusText;
+        }
+        return new Uint8Array(await res.arrayBuffer());
+    }
+    catch (e) {
+        console.log('Unable to load boot ROM', url, e);
+        return null;
+    }
 }
 
 async function sceneInit() {
     const roms: ROM[] = [
-        { title: 'ROM: adjustris', data: new Uint8Array(await (await fetch('roms/adjtris.gb')).arrayBuffer()) },
-        { title: 'ROM: Sheep It Up!', data: new Uint8Array(await (await fetch('roms/sheepitup.gb')).arrayBuffer()) },
-        { title: 'ROM: gejmboj demo', data: new Uint8Array(await (await fetch('roms/gejmboj.gb')).arrayBuffer()) },
+        await fetchROM('roms/adjtris.gb'),
+        await fetchROM('roms/sheepitup.gb'),
+        await fetchROM('roms/gejmboj.gb'),
     ];
 
+    const dmgBootROM = await fetchBootROM('dmg_boot');
+    const cgbBootROM = await fetchBootROM('cgb_boot');
+
     updateClientSize();
 
     Array.from(document.getElementsByClassName('loading')).forEach((e: any) => e.style.display = 'none');
     Array.from(document.getElementsByClassName('loaded')).forEach((e: any) => e.style.display = 'inherit');
 
+    const onRumble = (active: boolean) => {
+        if (navigator.vibrate) {
+            navigator.vibrate(active ? 1000 : 0);
+        }
+
+        for (const pad of navigator.getGamepads ? navigator.getGamepads() : []) {
+            const actuator = pad && canVibrate(pad) ? pad.vibrationActuator : null;
+            if (actuator && actuator.playEffect) {
+                if (active) {
+                    actuator.playEffect('dual-rumble', { duration: 1000, strongMagnitude: 1.0, weakMagnitude: 0.5 });
+                }
+                else if (actuator.reset) {
+                    actuator.reset();
+                }
+            }
+        }
+    };
+
+    const loadBattery = async (rom: Uint8Array): Promise<Uint8Array | null> => {
+        try {
+            return await loadBatterySave(romSaveKey(parseCartridgeHeader(rom)));
+        }
+        catch (e) {
+            console.log('Unable to load save', e);
+            return null;
+        }
+    };
+
+    const persistSave = () => {
+        const save = emulator.takeDirtySave();
+        if (save) {
+            const key = romSaveKey(emulator.getHeader());
+            storeBatterySave(key, save).catch(e => {
+                console.log('Unable to store save', e);
+                // Tried again at the next autosave, unless another ROM was loaded meanwhile
+                if (romSaveKey(emulator.getHeader()) == key) {
+                    emulator.markSaveDirty();
+                }
+            });
+        }
+    };
+
     let romIndex: number = 0;
     (document.getElementById('rom-title') as HTMLElement).textContent = roms[romIndex].title;
-    let mmu = new MMU(new Uint8Array(roms[romIndex].data));
-    let ppu = new PPU(mmu);
-    let gb = new GB(mmu);
-    let gbTimer = new GBTimer(mmu);
+    const firstROM = new Uint8Array(roms[romIndex].data);
+    const emulator = new Emulator(firstROM, {
+        dmgBootRom: dmgBootROM,
+        cgbBootRom: cgbBootROM,
+        sampleRate: 44100,
+        rtcClock: RTCClock.WallClock,
+    }, await loadBattery(firstROM));
+    emulator.on('rumble', onRumble);
+    emulator.getDebugger().setSymbols(roms[romIndex].symbols);
+
+    // Printed strips are added below the controls
+    const printImage = (image: PrintedImage) => {
+        if (image.height == 0) {
+            return;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+        const imageData = ctx.createImageData(image.width, image.height);
+        for (let i = 0; i < image.pixels.length; i++) {
+            imageData.data.fill(image.pixels[i], i * 4, i * 4 + 3);
+            imageData.data[i * 4 + 3] = 0xFF;
+        }
+        ctx.putImageData(imageData, 0, 0);
+        (document.getElementById('printer-output') as HTMLElement).appendChild(canvas);
+    };
+    let printer: Printer | null = null;
+
+    let audio: AudioOutput | null = null;
+    let audioPending = false;
+    const startAudio = () => {
+        if (audio) {
+            audio.resume();
+            return;
+        }
 
-    const loadNewROM = () => {
+        if (audioPending) {
+            return;
+        }
+
+        audioPending = true;
+        AudioOutput.create().then(output => {
+            audio = output;
+            emulator.setSampleRate(audio.getSampleRate());
+        }).catch(e => console.log('Unable to start audio', e));
+    };
+
+    const loadNewROM = async (newIndex: number) => {
+        persistSave();
+
+        const rom = new Uint8Array(roms[newIndex].data);
+        const save = await loadBattery(rom);
+        onRumble(false);
+        romIndex = newIndex;
         (document.getElementById('rom-title') as HTMLElement).textContent = roms[romIndex].title;
-        mmu = new MMU(new Uint8Array(roms[romIndex].data));
-        ppu = new PPU(mmu);
-        gb = new GB(mmu);
-        gbTimer = new GBTimer(mmu);
+        emulator.loadRom(rom, save);
+        emulator.getDebugger().setSymbols(roms[romIndex].symbols);
+        rewind.clear();
     };
 
+    const rewind = new Rewind(() => emulator.saveState(), (state: Uint8Array) => emulator.loadState(state));
+    let rewinding = false;
+
     const canvasElement = document.getElementById('gb-canvas') as HTMLCanvasElement;
     const gl = canvasElement.getContext('webgl2') as WebGL2RenderingContext;
 
@@ -123,6 +301,18 @@ async function sceneInit() {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
 
+    const texColor = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, texColor);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 2);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R16UI, 160, 144, 0, gl.RED_INTEGER, gl.UNSIGNED_SHORT, null);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
     const texPalette = gl.createTexture();
     gl.activeTexture(gl.TEXTURE1);
     gl.bindTexture(gl.TEXTURE_2D, texPalette);
@@ -162,6 +352,8 @@ async function sceneInit() {
     const shaderFS = glCompileShader(gl, '#version 300 es\n' + shaderSourceFS, gl.FRAGMENT_SHADER);
     const shaderVS = glCompileShader(gl, '#version 300 es\n' + shaderSourceVS, gl.VERTEX_SHADER);
     const shaderProg = glCreateProgram(gl, shaderVS, shaderFS);
+    const shaderCGBFS = glCompileShader(gl, '#version 300 es\n' + shaderSourceCGBFS, gl.FRAGMENT_SHADER);
+    const shaderProgCGB = glCreateProgram(gl, shaderVS, shaderCGBFS);
     gl.useProgram(shaderProg);
 
     const vb = gl.createBuffer();
@@ -179,77 +371,262 @@ async function sceneInit() {
     gl.enableVertexAttribArray(attribPos);
     gl.vertexAttribPointer(attribPos, 2, gl.FLOAT, false, 2 * 4, 0);
 
+    const attribPosCGB = gl.getAttribLocation(shaderProgCGB, 'pos');
+    const uniformTexCGB = gl.getUniformLocation(shaderProgCGB, 'tex');
+    const uniformTexGridCGB = gl.getUniformLocation(shaderProgCGB, 'tex_grid');
+
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
     gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
     gl.clearColor(1.0, 1.0, 1.0, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT);
 
-    let accFrameCycles = 0;
-    const maxFrameCycles = 17556;
-    const animFrame = () => {
-        while (accFrameCycles < maxFrameCycles) {
-            const clks = gb.Step();
-            ppu.Step(clks, true);
-            gbTimer.Step(clks);
-            accFrameCycles += clks;
+    const saveInterval = 60;
+    let saveFrames = 0;
+    const pacer = new FramePacer();
+    const speed = new SpeedControl();
+
+    const debug = emulator.getDebugger();
+    const breakReasons = ['breakpoint', 'watchpoint', 'interrupt', 'step'];
+    // ?trace=N keeps the last N instructions, logged when the debugger stops at something or the emulator crashes
+    const traceRing = parseInt(new URLSearchParams(window.location.search).get('trace') || '0', 10);
+    const tracer = traceRing > 0 ? new Tracer(emulator, { format: TraceFormat.BGB, ringSize: traceRing }) : null;
+    emulator.setTracer(tracer);
+    const dumpTrace = () => {
+        if (tracer) {
+            console.log(tracer.dump().join('\n'));
+        }
+    };
+    window.addEventListener('error', dumpTrace);
+
+    const vramPanel = new VRAMPanel(emulator, document.getElementById('vram-panel') as HTMLElement);
+    const memoryPanel = new MemoryPanel(emulator, document.getElementById('memory-panel') as HTMLElement);
+
+    emulator.on('breakpoint', (pc: number, info: BreakInfo) => {
+        vramPanel.refresh();
+        memoryPanel.refresh();
+        if (info.reason != BreakReason.Step) {
+            dumpTrace();
+        }
+        console.log('Stopped at', formatInstruction(debug.disassemble(pc)[0]), breakReasons[info.reason],
+            emulator.getRegisters());
+    });
+
+    const runFrame = (render: boolean) => {
+        // A break leaves the frame unfinished until the debugger resumes
+        if (debug.isPaused() || !emulator.runFrame(render)) {
+            return;
+        }
+        rewind.frame();
+
+        if (++saveFrames >= saveInterval) {
+            saveFrames = 0;
+            persistSave();
+        }
+    };
+
+    const animFrame = (now: number) => {
+        window.requestAnimationFrame(animFrame);
+
+        if (debug.isPaused()) {
+            pacer.reset();
+            return;
+        }
+
+        // Audio is muted away from normal speed
+        const normalSpeed = speed.getSpeed() == 1 && !speed.isUnthrottled();
+        const buffered = audio && audio.isRunning() && !rewinding && normalSpeed ? audio.getBufferedSeconds() : null;
+        const frames = pacer.framesDue(now, buffered, speed.getSpeed());
+        if (speed.isUnthrottled() && !rewinding) {
+            // Draw the first frame and run blind for the rest of the budget
+            const deadline = performance.now() + UNTHROTTLED_BUDGET;
+            runFrame(true);
+            while (performance.now() < deadline) {
+                runFrame(false);
+            }
+        }
+        else if (frames == 0) {
+            return;
+        }
+        else if (!rewinding || !rewind.stepBack()) {
+            // Only the last frame is drawn when catching up or fast-forwarding
+            for (let i = 0; i < frames; i++) {
+                runFrame(i == frames - 1);
+            }
+        }
+
+        const samples = emulator.drainSamples();
+        if (audio && buffered != null) {
+            emulator.setAudioRateAdjust(pacer.rateAdjust(buffered));
+            audio.push(samples);
         }
-        accFrameCycles -= maxFrameCycles;
 
         gl.bindFramebuffer(gl.FRAMEBUFFER, null);
         gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
 
-        gl.activeTexture(gl.TEXTURE1);
-        gl.bindTexture(gl.TEXTURE_2D, texPalette);
         gl.activeTexture(gl.TEXTURE2);
         gl.bindTexture(gl.TEXTURE_2D, texGrid);
-        gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_2D, texRender);
-        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 160, 144, gl.RED, gl.UNSIGNED_BYTE, new Uint8Array(ppu.getFramebuffer()));
-
-        gl.useProgram(shaderProg);
-        gl.bindBuffer(gl.ARRAY_BUFFER, vb);
-        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, ib);
-        gl.enableVertexAttribArray(attribPos);
-        gl.uniform1i(uniformTex, 0);
-        gl.uniform1i(uniformTexPalette, 1);
-        gl.uniform1i(uniformTexGrid, 2);
+
+        if (emulator.isCGB()) {
+            gl.activeTexture(gl.TEXTURE3);
+            gl.bindTexture(gl.TEXTURE_2D, texColor);
+            gl.pixelStorei(gl.UNPACK_ALIGNMENT, 2);
+            gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 160, 144, gl.RED_INTEGER, gl.UNSIGNED_SHORT, emulator.getColorFramebuffer());
+            gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+            gl.useProgram(shaderProgCGB);
+            gl.bindBuffer(gl.ARRAY_BUFFER, vb);
+            gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, ib);
+            gl.enableVertexAttribArray(attribPosCGB);
+            gl.vertexAttribPointer(attribPosCGB, 2, gl.FLOAT, false, 2 * 4, 0);
+            gl.uniform1i(uniformTexCGB, 3);
+            gl.uniform1i(uniformTexGridCGB, 2);
+        }
+        else {
+            gl.activeTexture(gl.TEXTURE1);
+            gl.bindTexture(gl.TEXTURE_2D, texPalette);
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, texRender);
+            gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 160, 144, gl.RED, gl.UNSIGNED_BYTE, new Uint8Array(emulator.getFramebuffer()));
+
+            gl.useProgram(shaderProg);
+            gl.bindBuffer(gl.ARRAY_BUFFER, vb);
+            gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, ib);
+            gl.enableVertexAttribArray(attribPos);
+            gl.vertexAttribPointer(attribPos, 2, gl.FLOAT, false, 2 * 4, 0);
+            gl.uniform1i(uniformTex, 0);
+            gl.uniform1i(uniformTexPalette, 1);
+            gl.uniform1i(uniformTexGrid, 2);
+        }
 
         gl.drawElements(gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0);
 
-        window.requestAnimationFrame(animFrame);
+        // Once per frame shown rather than per frame emulated
+        vramPanel.refresh();
+        memoryPanel.refresh();
+    };
+
+    const saveStateSlot = (slot: number) => {
+        try {
+            writeStateSlot(romSaveKey(emulator.getHeader()), slot, emulator.saveState());
+            console.log('Saved state to slot', slot);
+        }
+        catch (e) {
+            console.log('Unable to save state', e);
+        }
+    };
+
+    const loadStateSlot = (slot: number) => {
+        try {
+            const data = readStateSlot(romSaveKey(emulator.getHeader()), slot);
+            if (data) {
+                emulator.loadState(data);
+                console.log('Loaded state from slot', slot);
+            }
+        }
+        catch (e) {
+            console.log('Unable to load state', e);
+        }
     };
 
     document.addEventListener('keydown', (ev: KeyboardEvent) => {
+        startAudio();
+
+        if (ev.code.startsWith('Digit') && ev.code != 'Digit0') {
+            const slot = parseInt(ev.code.substr(5));
+            if (ev.shiftKey) {
+                saveStateSlot(slot);
+            }
+            else {
+                loadStateSlot(slot);
+            }
+            return;
+        }
+
         switch (ev.code) {
-            case 'ArrowUp': gb.ButtonOn(Button.Up); break;
-            case 'ArrowDown': gb.ButtonOn(Button.Down); break;
-            case 'ArrowLeft': gb.ButtonOn(Button.Left); break;
-            case 'ArrowRight': gb.ButtonOn(Button.Right); break;
-            case 'KeyX': gb.ButtonOn(Button.A); break;
-            case 'KeyZ': gb.ButtonOn(Button.B); break;
-            case 'Enter': gb.ButtonOn(Button.Start); break;
-            case 'Backspace': gb.ButtonOn(Button.Select); break;
-
-            case 'KeyN': romIndex = (romIndex == 0 ? (roms.length - 1) : (romIndex - 1)); loadNewROM(); break;
-            case 'KeyM': romIndex = (romIndex + 1 == roms.length ? 0 : (romIndex + 1)); loadNewROM(); break;
+            case 'ArrowUp': emulator.setButton(Button.Up, true); break;
+            case 'ArrowDown': emulator.setButton(Button.Down, true); break;
+            case 'ArrowLeft': emulator.setButton(Button.Left, true); break;
+            case 'ArrowRight': emulator.setButton(Button.Right, true); break;
+            case 'KeyX': emulator.setButton(Button.A, true); break;
+            case 'KeyZ': emulator.setButton(Button.B, true); break;
+            case 'Enter': emulator.setButton(Button.Start, true); break;
+            case 'Backspace': emulator.setButton(Button.Select, true); break;
+            case 'KeyR': rewinding = true; break;
+            case 'Space': speed.holdTurbo(true); break;
+            case 'KeyF': speed.toggleTurbo(); break;
+            case 'KeyU':
+                speed.setUnthrottled(!speed.isUnthrottled());
+                pacer.reset();
+                break;
+            case 'BracketLeft': speed.setSpeed(speed.getBaseSpeed() / 2); console.log('Speed', speed.getBaseSpeed()); break;
+            case 'BracketRight': speed.setSpeed(speed.getBaseSpeed() * 2); console.log('Speed', speed.getBaseSpeed()); break;
+            case 'Minus': speed.setTurboSpeed(speed.getTurboSpeed() / 2); console.log('Fast-forward speed', speed.getTurboSpeed()); break;
+            case 'Equal': speed.setTurboSpeed(speed.getTurboSpeed() * 2); console.log('Fast-forward speed', speed.getTurboSpeed()); break;
+            case 'KeyV':
+                pacer.setMode(pacer.getMode() == SyncMode.Video ? SyncMode.Audio : SyncMode.Video);
+                console.log('Sync to', pacer.getMode() == SyncMode.Video ? 'video' : 'audio');
+                break;
+
+            case 'KeyP':
+                printer = printer ? null : new Printer(printImage);
+                emulator.setLinkTransport(printer);
+                console.log(printer ? 'Printer connected' : 'Printer disconnected');
+                break;
+
+            case 'F2': ev.preventDefault(); vramPanel.setVisible(!vramPanel.isVisible()); break;
+            case 'F3': ev.preventDefault(); memoryPanel.setVisible(!memoryPanel.isVisible()); break;
+            case 'F8':
+                ev.preventDefault();
+                if (debug.isPaused()) {
+                    debug.resume();
+                }
+                else {
+                    debug.pause();
+                    console.log('Paused at', emulator.getRegisters());
+                }
+                break;
+            case 'F10': ev.preventDefault(); debug.stepOver(); break;
+            case 'F11':
+                ev.preventDefault();
+                if (ev.shiftKey) {
+                    debug.stepOut();
+                }
+                else {
+                    debug.stepInto();
+                }
+                break;
+
+            case 'KeyN': loadNewROM(romIndex == 0 ? (roms.length - 1) : (romIndex - 1)); break;
+            case 'KeyM': loadNewROM(romIndex + 1 == roms.length ? 0 : (romIndex + 1)); break;
             default:
         }
     });
 
     document.addEventListener('keyup', (ev: KeyboardEvent) => {
         switch (ev.code) {
-            case 'ArrowUp': gb.ButtonOff(Button.Up); break;
-            case 'ArrowDown': gb.ButtonOff(Button.Down); break;
-            case 'ArrowLeft': gb.ButtonOff(Button.Left); break;
-            case 'ArrowRight': gb.ButtonOff(Button.Right); break;
-            case 'KeyX': gb.ButtonOff(Button.A); break;
-            case 'KeyZ': gb.ButtonOff(Button.B); break;
-            case 'Enter': gb.ButtonOff(Button.Start); break;
-            case 'Backspace': gb.ButtonOff(Button.Select); break;
+            case 'ArrowUp': emulator.setButton(Button.Up, false); break;
+            case 'ArrowDown': emulator.setButton(Button.Down, false); break;
+            case 'ArrowLeft': emulator.setButton(Button.Left, false); break;
+            case 'ArrowRight': emulator.setButton(Button.Right, false); break;
+            case 'KeyX': emulator.setButton(Button.A, false); break;
+            case 'KeyZ': emulator.setButton(Button.B, false); break;
+            case 'Enter': emulator.setButton(Button.Start, false); break;
+            case 'Backspace': emulator.setButton(Button.Select, false); break;
+            case 'KeyR': rewinding = false; break;
+            case 'Space': speed.holdTurbo(false); break;
             default:
         }
     });
 
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+            persistSave();
+        }
+        else {
+            pacer.reset();
+        }
+    });
+
     window.requestAnimationFrame(animFrame);
 }
 
@@ -0,0 +1,220 @@
+import { hex } from './cartridge';
+import type Emulator from './emulator';
+import { IORegister, MMUBase } from './mmu';
+
+export interface IOField {
+    name: string;
+    value: string;
+}
+
+export interface IORegisterView {
+    address: number;
+    name: string;
+    value: number;
+    fields: IOField[];
+}
+
+interface IORegisterInfo {
+    reg: number;
+    name: string;
+    cgbOnly?: boolean;
+    decode: (v: number, read: (addr: number) => number) => IOField[];
+}
+
+const INTERRUPTS = ['VBlank', 'LCD STAT', 'Timer', 'Serial', 'Joypad'];
+const CHANNELS = ['1', '2', '3', '4'];
+
+const field = (name: string, value: string | number): IOField => ({ name, value: value.toString() });
+const flag = (name: string, v: number, bit: number): IOField => field(name, (v >> bit) & 1 ? 'on' : 'off');
+const hex8 = (v: number) => '$' + hex(v, 2);
+const value = (v: number) => [field('Value', v)];
+const interrupts = (v: number) => INTERRUPTS.map((name, i) => flag(name, v, i));
+const palette = (v: number) => [field('Colours 0-3', [0, 1, 2, 3].map(i => (v >> (i * 2)) & 3).join(' '))];
+const duty = (v: number) => [field('Duty', ['12.5%', '25%', '50%', '75%'][v >> 6]), field('Length', v & 0x3F)];
+const envelope = (v: number) => [field('Initial volume', v >> 4), field('Direction', v & 0x08 ? 'up' : 'down'), field('Period', v & 7)];
+const freqHi = (v: number) => [flag('Trigger', v, 7), flag('Length enable', v, 6), field('Frequency high', v & 7)];
+const freqLo = (v: number) => [field('Frequency low', hex8(v))];
+
+// Every IORegister and IE, in address order
+const IO_REGISTERS: IORegisterInfo[] = [
+    { reg: IORegister.Joypad, name: 'P1', decode: v => [
+        field('Select buttons', v & 0x20 ? 'no' : 'yes'), field('Select d-pad', v & 0x10 ? 'no' : 'yes'),
+        field('Lines 3-0', (v & 0x0F).toString(2).padStart(4, '0'))] },
+    { reg: IORegister.SerialData, name: 'SB', decode: v => [field('Data', hex8(v))] },
+    { reg: IORegister.SerialControl, name: 'SC', decode: v => [
+        flag('Transfer', v, 7), flag('Fast clock', v, 1), field('Clock', v & 1 ? 'internal' : 'external')] },
+    { reg: IORegister.Divider, name: 'DIV', decode: value },
+    { reg: IORegister.TimerCounter, name: 'TIMA', decode: value },
+    { reg: IORegister.TimerModulo, name: 'TMA', decode: value },
+    { reg: IORegister.TimerControl, name: 'TAC', decode: v => [
+        flag('Enabled', v, 2), field('Frequency', ['4096 Hz', '262144 Hz', '65536 Hz', '16384 Hz'][v & 3])] },
+    { reg: IORegister.InterruptFlag, name: 'IF', decode: interrupts },
+
+    { reg: IORegister.Sound1Sweep, name: 'NR10', decode: v => [
+        field('Sweep period', (v >> 4) & 7), field('Direction', v & 0x08 ? 'down' : 'up'), field('Shift', v & 7)] },
+    { reg: IORegister.Sound1Mode, name: 'NR11', decode: duty },
+    { reg: IORegister.Sound1Envelope, name: 'NR12', decode: envelope },
+    { reg: IORegister.Sound1FreqLo, name: 'NR13', decode: freqLo },
+    { reg: IORegister.Sound1FreqHi, name: 'NR14', decode: freqHi },
+    { reg: IORegister.Sound2Mode, name: 'NR21', decode: duty },
+    { reg: IORegister.Sound2Envelope, name: 'NR22', decode: envelope },
+    { reg: IORegister.Sound2FreqLo, name: 'NR23', decode: freqLo },
+    { reg: IORegister.Sound2FreqHi, name: 'NR24', decode: freqHi },
+    { reg: IORegister.Sound3Enable, name: 'NR30', decode: v => [flag('DAC', v, 7)] },
+    { reg: IORegister.Sound3Length, name: 'NR31', decode: v => [field('Length', v)] },
+    { reg: IORegister.Sound3Level, name: 'NR32', decode: v => [field('Output level', ['mute', '100%', '50%', '25%'][(v >> 5) & 3])] },
+    { reg: IORegister.Sound3FreqLo, name: 'NR33', decode: freqLo },
+    { reg: IORegister.Sound3FreqHi, name: 'NR34', decode: freqHi },
+    { reg: IORegister.Sound4Length, name: 'NR41', decode: v => [field('Length', v & 0x3F)] },
+    { reg: IORegister.Sound4Envelope, name: 'NR42', decode: envelope },
+    { reg: IORegister.Sound4Poly, name: 'NR43', decode: v => [
+        field('Clock shift', v >> 4), field('LFSR width', v & 0x08 ? '7 bit' : '15 bit'), field('Divisor code', v & 7)] },
+    { reg: IORegister.Sound4Counter, name: 'NR44', decode: v => [flag('Trigger', v, 7), flag('Length enable', v, 6)] },
+    { reg: IORegister.SoundChannels, name: 'NR50', decode: v => [
+        field('Left volume', (v >> 4) & 7), field('Right volume', v & 7), flag('VIN left', v, 7), flag('VIN right', v, 3)] },
+    { reg: IORegister.SoundOutput, name: 'NR51', decode: v => [
+        field('Left', CHANNELS.filter((c, i) => v & (0x10 << i)).join(' ') || 'none'),
+        field('Right', CHANNELS.filter((c, i) => v & (1 << i)).join(' ') || 'none')] },
+    { reg: IORegister.SoundControl, name: 'NR52', decode: v => [
+        flag('Sound', v, 7), field('Channels playing', CHANNELS.filter((c, i) => v & (1 << i)).join(' ') || 'none')] },
+    { reg: IORegister.WaveRAM, name: 'WAVE', decode: (v, read) => [field('Samples', [...Array(16).keys()]
+        .map(i => hex(read(MMUBase.REGS + IORegister.WaveRAM + i), 2)).join(''))] },
+
+    { reg: IORegister.LCDControl, name: 'LCDC', decode: v => [
+        flag('LCD', v, 7), field('Window map', v & 0x40 ? '$9C00' : '$9800'), flag('Window', v, 5),
+        field('Tile data', v & 0x10 ? '$8000' : '$8800'), field('BG map', v & 0x08 ? '$9C00' : '$9800'),
+        field('OBJ size', v & 0x04 ? '8x16' : '8x8'), flag('OBJ', v, 1), flag('BG/priority', v, 0)] },
+    { reg: IORegister.LCDStat, name: 'STAT', decode: v => [
+        field('Mode', ['HBlank', 'VBlank', 'OAM scan', 'Drawing'][v & 3]), flag('LYC match', v, 2),
+        flag('HBlank interrupt', v, 3), flag('VBlank interrupt', v, 4), flag('OAM interrupt', v, 5), flag('LYC interrupt', v, 6)] },
+    { reg: IORegister.ScrollY, name: 'SCY', decode: value },
+    { reg: IORegister.ScrollX, name: 'SCX', decode: value },
+    { reg: IORegister.LCDY, name: 'LY', decode: value },
+    { reg: IORegister.LCDYCompare, name: 'LYC', decode: value },
+    { reg: IORegister.OAMDMA, name: 'DMA', decode: v => [field('Source', hex8(v) + '00')] },
+    { reg: IORegister.BackgroundPalette, name: 'BGP', decode: palette },
+    { reg: IORegister.ObjectPalette0, name: 'OBP0', decode: palette },
+    { reg: IORegister.ObjectPalette1, name: 'OBP1', decode: palette },
+    { reg: IORegister.WindowY, name: 'WY', decode: value },
+    { reg: IORegister.WindowX, name: 'WX', decode: v => [field('Value', v), field('Screen X', v - 7)] },
+
+    { reg: IORegister.SpeedSwitch, name: 'KEY1', cgbOnly: true, decode: v => [flag('Double speed', v, 7), flag('Switch armed', v, 0)] },
+    { reg: IORegister.VRAMBank, name: 'VBK', cgbOnly: true, decode: v => [field('Bank', v & 1)] },
+    { reg: IORegister.BootROMDisable, name: 'BOOT', decode: v => [field('Boot ROM', v ? 'unmapped' : 'mapped')] },
+    { reg: IORegister.HDMASourceHi, name: 'HDMA1', cgbOnly: true, decode: () => [field('Source high', 'write only')] },
+    { reg: IORegister.HDMASourceLo, name: 'HDMA2', cgbOnly: true, decode: () => [field('Source low', 'write only')] },
+    { reg: IORegister.HDMADestHi, name: 'HDMA3', cgbOnly: true, decode: () => [field('Destination high', 'write only')] },
+    { reg: IORegister.HDMADestLo, name: 'HDMA4', cgbOnly: true, decode: () => [field('Destination low', 'write only')] },
+    { reg: IORegister.HDMAControl, name: 'HDMA5', cgbOnly: true, decode: v => [
+        field('Active', v == 0xFF ? 'no' : 'yes'), field('Blocks left', v == 0xFF ? 0 : (v & 0x7F) + 1)] },
+    { reg: IORegister.BGPaletteIndex, name: 'BCPS', cgbOnly: true, decode: v => [field('Index', v & 0x3F), flag('Auto increment', v, 7)] },
+    { reg: IORegister.BGPaletteData, name: 'BCPD', cgbOnly: true, decode: v => [field('Data', hex8(v))] },
+    { reg: IORegister.OBJPaletteIndex, name: 'OCPS', cgbOnly: true, decode: v => [field('Index', v & 0x3F), flag('Auto increment', v, 7)] },
+    { reg: IORegister.OBJPaletteData, name: 'OCPD', cgbOnly: true, decode: v => [field('Data', hex8(v))] },
+    { reg: IORegister.WRAMBank, name: 'SVBK', cgbOnly: true, decode: v => [field('Bank', Math.max(1, v & 7))] },
+
+    { reg: 0xFF, name: 'IE', decode: interrupts },
+];
+
+// Start of each region with selectable banks
+export const BANKED_REGIONS = [MMUBase.ROM0, MMUBase.ROMB, MMUBase.VRAM, MMUBase.RAMB, 0xD000];
+
+// The 64 KiB map as the memory viewer shows it: any bank of the banked regions, bytes changed between
+// snapshots and writes with or without the side effects a CPU write would have
+export default class MemoryViewer {
+    private emulator: Emulator;
+    // Per banked region, null for whatever the CPU sees
+    private banks: (number | null)[];
+    private previous: Uint8Array;
+    private current: Uint8Array;
+
+    constructor(emulator: Emulator) {
+        this.emulator = emulator;
+        this.banks = BANKED_REGIONS.map(() => null);
+        this.previous = new Uint8Array(0x10000);
+        this.current = new Uint8Array(0x10000);
+        this.snapshot();
+        this.previous.set(this.current);
+    }
+
+    // Index into BANKED_REGIONS, -1 outside them
+    private static region(addr: number): number {
+        if (addr < MMUBase.ROMB) {
+            return 0;
+        }
+        else if (addr < MMUBase.VRAM) {
+            return 1;
+        }
+        else if (addr < MMUBase.RAMB) {
+            return 2;
+        }
+        else if (addr < MMUBase.RAMW) {
+            return 3;
+        }
+        else if (addr >= 0xD000 && addr < MMUBase.RAMM) {
+            return 4;
+        }
+
+        return -1;
+    }
+
+    setBank(addr: number, bank: number | null) {
+        const region = MemoryViewer.region(addr);
+        if (region < 0) {
+            throw 'No banks at $' + addr.toString(16);
+        }
+
+        const [first, last] = this.emulator.getMMU().getBankRange(addr);
+        if (bank != null && (bank < first || bank > last)) {
+            throw 'Bank ' + bank + ' out of range ' + first + '-' + last;
+        }
+        this.banks[region] = bank;
+
+        // Nothing in the region counts as changed until the next snapshot
+        for (let addr = BANKED_REGIONS[region]; MemoryViewer.region(addr) == region; addr++) {
+            this.previous[addr] = this.current[addr] = this.read(addr);
+        }
+    }
+
+    getBank(addr: number): number | null {
+        const region = MemoryViewer.region(addr);
+        return region < 0 ? null : this.banks[region];
+    }
+
+    read(addr: number): number {
+        return this.emulator.getMMU().peek(addr, this.getBank(addr));
+    }
+
+    // A bypassed write skips mapper registers and RAM enables and goes into the selected bank
+    write(addr: number, v: number, bypass: boolean) {
+        if (bypass) {
+            this.emulator.getMMU().poke(addr, v, this.getBank(addr));
+        }
+        else {
+            this.emulator.getMMU().write(addr, v);
+        }
+    }
+
+    // Called once per frame shown, changed() compares it against the one before
+    snapshot() {
+        [this.previous, this.current] = [this.current, this.previous];
+        for (let addr = 0; addr < 0x10000; addr++) {
+            this.current[addr] = this.read(addr);
+        }
+    }
+
+    changed(addr: number): boolean {
+        return this.previous[addr] != this.current[addr];
+    }
+
+    getIORegisters(): IORegisterView[] {
+        const mmu = this.emulator.getMMU();
+        const read = (addr: number) => mmu.read(addr);
+        const cgb = this.emulator.isCGB();
+        return IO_REGISTERS.filter(info => cgb || !info.cgbOnly).map(info => {
+            const address = MMUBase.REGS + info.reg;
+            const v = mmu.read(address);
+            return { address, name: info.name, value: v, fields: info.decode(v, read) };
+        });
+    }
+}
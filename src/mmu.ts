@@ -1,8 +1,13 @@
+import { CartridgeHeader, CGBSupport, parseCartridgeHeader } from './cartridge';
+import RTC, { RTCRegister, RTC_SAVE_SIZE, RTC_SAVE_SIZE_32 } from './rtc';
+import { StateReader, StateWriter } from './state';
+
 class MemoryRange {
 
 }
 
-interface MemoryRegion {
+// IO handlers mapped into 0xFF00-0xFF7F with mapRegion
+export interface MemoryRegion {
     start: number;
     length: number;
 
@@ -59,6 +64,8 @@ export const enum IORegister {
 	SoundOutput = 0x25,
 	SoundControl = 0x26,
 
+	WaveRAM = 0x30,
+
 	LCDControl = 0x40,
 	LCDStat = 0x41,
 	ScrollY = 0x42,
@@ -72,66 +79,536 @@ export const enum IORegister {
 	WindowY = 0x4A,
 	WindowX = 0x4B,
 
+	SpeedSwitch = 0x4D,
+	VRAMBank = 0x4F,
+
 	BootROMDisable = 0x50,
+
+	HDMASourceHi = 0x51,
+	HDMASourceLo = 0x52,
+	HDMADestHi = 0x53,
+	HDMADestLo = 0x54,
+	HDMAControl = 0x55,
+
+	BGPaletteIndex = 0x68,
+	BGPaletteData = 0x69,
+	OBJPaletteIndex = 0x6A,
+	OBJPaletteData = 0x6B,
+
+	WRAMBank = 0x70,
 };
 
+const OAM_SIZE = 0xA0;
+
+function isVRAMBus(addr: number): boolean {
+    return addr >= MMUBase.VRAM && addr < MMUBase.RAMB;
+}
+
 export default class MMU {
     private mem: Uint8Array;
     private rom: Uint8Array;
+    private ram: Uint8Array;
+    private header: CartridgeHeader;
 
-    // private mbc1RamEnable: boolean;
-    // private mbc2RamEnable: boolean;
+    private mbc1RamEnable: boolean;
+    private mbc2RamEnable: boolean;
     private mbc1RomBank: number;
     private mbc2RomBank: number;
-    // private mbc1RamBank: number;
+    private mbc1RamBank: number;
     private mbc1RomMode: number;
+    private mbc5RomBank: number;
     private mbc: number;
+    private battery: boolean;
+    private ramDirty: boolean;
+    private rtc: RTC | null;
+    private rumble: boolean;
+    private rumbleActive: boolean;
+
+    public onRumble: ((active: boolean) => void) | null;
+    // Every CPU data read and write, not instruction fetches, for watchpoints
+    public onCPUAccess: ((addr: number, v: number, write: boolean) => void) | null;
+
+    private ioRegions: (MemoryRegion | null)[];
+
+    // OAM DMA copies one byte per M-cycle after a one cycle start-up delay
+    private dmaSource: number;
+    private dmaIndex: number;
+    private dmaDelay: number;
+    private dmaValue: number;
 
-    constructor(rom: Uint8Array) {
+    // Overlays 0x0000-0x00FF (and 0x0200-0x08FF for CGB images) until 0xFF50 is written
+    private bootRom: Uint8Array | null;
+    private bootRomActive: boolean;
+
+    // CGB only: VRAM bank 1 and WRAM banks 1-7 are kept outside mem
+    private cgb: boolean;
+    private vram: Uint8Array;
+    private wram: Uint8Array;
+    private vramBank: number;
+    private wramBank: number;
+    private doubleSpeed: boolean;
+    private speedSwitchArmed: boolean;
+    private hdmaSource: number;
+    private hdmaDest: number;
+    private hdmaBlocks: number;
+    private hdmaHBlank: boolean;
+
+    private romBanks: number;
+    private rom0Offset: number;
+    private romOffset: number;
+    private ramOffset: number;
+
+    constructor(rom: Uint8Array, bootRom: Uint8Array | null = null) {
         this.rom = rom;
         this.mem = new Uint8Array(0x10000);
+        this.ioRegions = new Array(0x80).fill(null);
 
-        // this.mbc1RamEnable = this.mbc2RamEnable = false;
-        // this.mbc1RamBank = 0;
-        this.mbc1RomMode = 0;
-        this.mbc1RomBank = this.mbc2RomBank = 1;
+        if (bootRom && bootRom.length != 0x100 && bootRom.length != 0x900) {
+            throw 'Boot ROM must be 256 (DMG) or 2304 (CGB) bytes, got ' + bootRom.length;
+        }
+        this.bootRom = bootRom;
+        this.bootRomActive = bootRom != null;
 
-        this.mbc = 0;
-        switch (rom[0x147]) {
-            case 0:
-                this.mbc = 0; break;
+        this.dmaSource = 0;
+        this.dmaIndex = OAM_SIZE;
+        this.dmaDelay = 0;
+        this.dmaValue = 0xFF;
 
-            case 0x1: case 0x2: case 0x3:
-                this.mbc = 1; break;
+        this.mbc1RamEnable = this.mbc2RamEnable = false;
+        this.mbc1RamBank = 0;
+        this.mbc1RomMode = 0;
+        this.mbc1RomBank = this.mbc2RomBank = this.mbc5RomBank = 1;
 
-            case 0xF: case 0x10: case 0x11: case 0x12: case 0x13:
-                this.mbc = 3; break;
+        this.header = parseCartridgeHeader(rom);
+        const type = this.header.type;
 
-            default:
-                console.log('Unhandled rom type', rom[0x147]);
+        this.cgb = this.header.cgbSupport != CGBSupport.None;
+        this.vram = new Uint8Array(this.cgb ? 0x4000 : 0);
+        this.wram = new Uint8Array(this.cgb ? 0x8000 : 0);
+        this.vramBank = 0;
+        this.wramBank = 1;
+        this.doubleSpeed = false;
+        this.speedSwitchArmed = false;
+        this.hdmaSource = 0;
+        this.hdmaDest = 0;
+        this.hdmaBlocks = 0;
+        this.hdmaHBlank = false;
+
+        this.mbc = type.mbc;
+        if (this.mbc < 0) {
+            console.log('Unhandled rom type', type.name);
+            this.mbc = 0;
         }
 
+        this.battery = type.battery;
+        this.ramDirty = false;
+        this.rtc = type.timer && this.mbc == 3 ? new RTC() : null;
+        this.rumble = type.rumble;
+        this.rumbleActive = false;
+        this.onRumble = null;
+        this.onCPUAccess = null;
+
+        // MBC2 has 512 x 4-bit RAM built in, stored one nibble per byte
+        this.ram = new Uint8Array(type.ram ? this.header.ramSize : 0);
+
+        this.romBanks = Math.max(2, rom.length >> 14);
+        this.rom0Offset = 0;
+        this.romOffset = 0x4000;
+        this.ramOffset = 0;
+        this.updateBanks();
+
         for (let i = 0; i < 0x8000; i++) {
             this.mem[i] = rom[i];
         }
     }
 
+    private updateBanks() {
+        let romBank0 = 0;
+        let romBank = this.mbc1RomBank;
+        let ramBank = 0;
+
+        switch (this.mbc) {
+            case 1:
+                // The 2-bit register always supplies ROM bank bits 5-6 for 0x4000-0x7FFF.
+                // Mode 1 also applies it to 0x0000-0x3FFF and uses it as the RAM bank.
+                romBank |= this.mbc1RamBank << 5;
+                if (this.mbc1RomMode == 1) {
+                    romBank0 = this.mbc1RamBank << 5;
+                    ramBank = this.mbc1RamBank;
+                }
+                break;
+
+            case 2:
+                romBank = this.mbc2RomBank;
+                break;
+
+            case 3:
+                ramBank = this.mbc1RamBank & 0x03;
+                break;
+
+            case 5:
+                romBank = this.mbc5RomBank;
+                // Rumble carts wire RAM bank bit 3 to the motor instead
+                ramBank = this.mbc1RamBank & (this.rumble ? 0x07 : 0x0F);
+                break;
+        }
+
+        this.rom0Offset = (romBank0 % this.romBanks) << 14;
+        this.romOffset = (romBank % this.romBanks) << 14;
+        this.ramOffset = this.ram.length > 0 ? ((ramBank << 13) & (this.ram.length - 1)) : 0;
+    }
+
+    private ramAddr(addr: number): number {
+        return (this.ramOffset + (addr & 0x1FFF)) & (this.ram.length - 1);
+    }
+
+    private writeRam(addr: number, v: number) {
+        if (this.mbc1RamEnable && this.ram.length > 0) {
+            const ramAddr = this.ramAddr(addr);
+            if (this.ram[ramAddr] != v) {
+                this.ram[ramAddr] = v;
+                this.ramDirty = true;
+            }
+        }
+    }
+
+    private setRumble(active: boolean) {
+        if (this.rumbleActive != active) {
+            this.rumbleActive = active;
+            if (this.onRumble) {
+                this.onRumble(active);
+            }
+        }
+    }
+
+    private readCGBReg(addr: number): number {
+        switch (addr & 0xFF) {
+            case IORegister.SpeedSwitch: return (this.doubleSpeed ? 0x80 : 0) | 0x7E | (this.speedSwitchArmed ? 0x01 : 0);
+            case IORegister.VRAMBank: return 0xFE | this.vramBank;
+            case IORegister.WRAMBank: return 0xF8 | this.wramBank;
+            case IORegister.HDMASourceHi: case IORegister.HDMASourceLo:
+            case IORegister.HDMADestHi: case IORegister.HDMADestLo:
+                return 0xFF;
+            case IORegister.HDMAControl: return this.hdmaBlocks > 0 ? ((this.hdmaBlocks - 1) & 0x7F) : 0xFF;
+        }
+
+        return -1;
+    }
+
+    private writeCGBReg(addr: number, v: number): boolean {
+        switch (addr & 0xFF) {
+            case IORegister.SpeedSwitch: this.speedSwitchArmed = (v & 0x01) != 0; return true;
+            case IORegister.VRAMBank: this.vramBank = v & 0x01; return true;
+            case IORegister.WRAMBank: this.wramBank = (v & 0x07) || 1; return true;
+            case IORegister.HDMASourceHi: this.hdmaSource = (this.hdmaSource & 0x00F0) | (v << 8); return true;
+            case IORegister.HDMASourceLo: this.hdmaSource = (this.hdmaSource & 0xFF00) | (v & 0xF0); return true;
+            case IORegister.HDMADestHi: this.hdmaDest = (this.hdmaDest & 0x00F0) | ((v & 0x1F) << 8); return true;
+            case IORegister.HDMADestLo: this.hdmaDest = (this.hdmaDest & 0x1F00) | (v & 0xF0); return true;
+
+            case IORegister.HDMAControl:
+                // Clearing bit 7 during an HBlank transfer stops it
+                if (this.hdmaBlocks > 0 && this.hdmaHBlank && (v & 0x80) == 0) {
+                    this.hdmaBlocks = 0;
+                    return true;
+                }
+
+                this.hdmaBlocks = (v & 0x7F) + 1;
+                this.hdmaHBlank = (v & 0x80) != 0;
+                if (!this.hdmaHBlank) {
+                    while (this.hdmaBlocks > 0) {
+                        this.copyHDMABlock();
+                    }
+                }
+                return true;
+        }
+
+        return false;
+    }
+
+    private copyHDMABlock() {
+        for (let i = 0; i < 0x10; i++) {
+            this.vram[(this.vramBank << 13) | ((this.hdmaDest + i) & 0x1FFF)] = this.read((this.hdmaSource + i) & 0xFFFF);
+        }
+
+        this.hdmaSource = (this.hdmaSource + 0x10) & 0xFFFF;
+        this.hdmaDest = (this.hdmaDest + 0x10) & 0x1FFF;
+        --this.hdmaBlocks;
+    }
+
+    private stepDMA(cycles: number) {
+        while (cycles > 0 && this.dmaIndex < OAM_SIZE) {
+            --cycles;
+            if (this.dmaDelay > 0) {
+                --this.dmaDelay;
+                continue;
+            }
+
+            this.dmaValue = this.read(this.dmaSource + this.dmaIndex);
+            this.mem[MMUBase.OAMS + this.dmaIndex] = this.dmaValue;
+            ++this.dmaIndex;
+        }
+    }
+
+    isDMAActive(): boolean { return this.dmaIndex < OAM_SIZE && this.dmaDelay == 0; }
+
+    // The CPU's view of memory: while OAM DMA runs, OAM reads 0xFF and the bus the DMA is
+    // reading from (VRAM, or everything else below OAM) returns the byte being transferred.
+    // Instruction fetches aren't passed to onCPUAccess.
+    cpuRead(addr: number, fetch: boolean = false): number {
+        let v: number;
+        if (addr < MMUBase.OAMS && this.isDMAActive() && isVRAMBus(addr) == isVRAMBus(this.dmaSource)) {
+            v = this.dmaValue;
+        }
+        else if (addr >= MMUBase.OAMS && addr < MMUBase.REGS && this.isDMAActive()) {
+            v = 0xFF;
+        }
+        else {
+            v = this.read(addr);
+        }
+
+        if (this.onCPUAccess && !fetch) {
+            this.onCPUAccess(addr, v, false);
+        }
+        return v;
+    }
+
+    cpuWrite(addr: number, v: number) {
+        if (this.onCPUAccess) {
+            this.onCPUAccess(addr, v, true);
+        }
+
+        if (addr < MMUBase.REGS && this.isDMAActive() && (addr >= MMUBase.OAMS || isVRAMBus(addr) == isVRAMBus(this.dmaSource))) {
+            return;
+        }
+
+        this.write(addr, v);
+    }
+
+    // ROM bank mapped at a 0x0000-0x7FFF address
+    getROMBank(addr: number): number {
+        return (addr < MMUBase.ROMB ? this.rom0Offset : this.romOffset) >> 14;
+    }
+
+    isCGB(): boolean { return this.cgb; }
+    isBootROMActive(): boolean { return this.bootRomActive; }
+    isDoubleSpeed(): boolean { return this.doubleSpeed; }
+
+    // Called by the CPU on STOP; returns true if KEY1 had a speed switch armed
+    switchSpeed(): boolean {
+        if (!this.cgb || !this.speedSwitchArmed) {
+            return false;
+        }
+
+        this.doubleSpeed = !this.doubleSpeed;
+        this.speedSwitchArmed = false;
+        return true;
+    }
+
+    // Called by the PPU as each visible line enters HBlank
+    HBlank() {
+        if (this.hdmaBlocks > 0 && this.hdmaHBlank) {
+            this.copyHDMABlock();
+        }
+    }
+
+    // ROM contents in any bank, independent of the mapper, for tools
+    readROM(bank: number, addr: number): number {
+        return this.rom[((bank % this.romBanks) << 14) | (addr & 0x3FFF)] ?? 0xFF;
+    }
+
+    getROMBankCount(): number { return this.romBanks; }
+
+    // First and last bank tools can pick for an address: ROM, VRAM, cartridge RAM and CGB WRAM at 0xD000
+    getBankRange(addr: number): [number, number] {
+        if (addr < MMUBase.VRAM) {
+            return [0, this.romBanks - 1];
+        }
+        else if (addr < MMUBase.RAMB) {
+            return [0, this.cgb ? 1 : 0];
+        }
+        else if (addr < MMUBase.RAMW) {
+            return [0, this.mbc == 2 ? 0 : Math.max(1, this.ram.length >> 13) - 1];
+        }
+        else if (addr >= 0xD000 && addr < MMUBase.RAMM) {
+            return this.cgb ? [1, 7] : [1, 1];
+        }
+
+        return [0, 0];
+    }
+
+    // Bank the CPU currently sees at an address, see getBankRange
+    getMappedBank(addr: number): number {
+        if (addr < MMUBase.VRAM) {
+            return this.getROMBank(addr);
+        }
+        else if (addr < MMUBase.RAMB) {
+            return this.cgb ? this.vramBank : 0;
+        }
+        else if (addr < MMUBase.RAMW) {
+            return this.ramOffset >> 13;
+        }
+        else if (addr >= 0xD000 && addr < MMUBase.RAMM) {
+            return this.cgb ? this.wramBank : 1;
+        }
+
+        return 0;
+    }
+
+    // Reads any bank of a banked region, mapped or not, otherwise the same as read
+    peek(addr: number, bank: number | null = null): number {
+        if (bank == null || addr >= MMUBase.RAMM) {
+            return this.read(addr);
+        }
+
+        if (addr < MMUBase.VRAM) {
+            return this.readROM(bank, addr);
+        }
+        else if (addr < MMUBase.RAMB) {
+            return this.readVRAM(bank, addr);
+        }
+        else if (addr < MMUBase.RAMW) {
+            if (this.mbc == 0 || this.ram.length == 0) {
+                return this.mbc == 0 ? this.mem[addr] : 0xFF;
+            }
+            return this.mbc == 2 ? this.ram[addr & 0x1FF] | 0xF0 : this.ram[((bank << 13) | (addr & 0x1FFF)) & (this.ram.length - 1)];
+        }
+        else if (addr >= 0xD000 && this.cgb) {
+            return this.wram[((bank & 7) << 12) | (addr & 0x0FFF)];
+        }
+
+        return this.read(addr);
+    }
+
+    // Writes straight into memory for tools, skipping mapper registers and RAM enables; ROM edits change the
+    // loaded image. IO registers have no storage of their own so still go through write.
+    poke(addr: number, v: number, bank: number | null = null) {
+        v &= 0xFF;
+        if (addr >= MMUBase.RAMM && addr < MMUBase.OAMS) {
+            this.poke(addr - 0x2000, v, bank);
+        }
+        else if (addr < MMUBase.VRAM) {
+            const romAddr = (((bank ?? this.getROMBank(addr)) % this.romBanks) << 14) | (addr & 0x3FFF);
+            if (romAddr < this.rom.length) {
+                this.rom[romAddr] = v;
+            }
+            if (romAddr < 0x8000) {
+                this.mem[romAddr] = v;
+            }
+        }
+        else if (addr < MMUBase.RAMB && this.cgb) {
+            this.vram[((bank ?? this.vramBank) << 13) | (addr & 0x1FFF)] = v;
+        }
+        else if (addr >= MMUBase.RAMB && addr < MMUBase.RAMW && this.mbc != 0) {
+            if (this.ram.length > 0) {
+                const ramAddr = this.mbc == 2 ? addr & 0x1FF :
+                    bank == null ? this.ramAddr(addr) : ((bank << 13) | (addr & 0x1FFF)) & (this.ram.length - 1);
+                this.ram[ramAddr] = this.mbc == 2 ? v & 0x0F : v;
+                this.ramDirty = true;
+            }
+        }
+        else if (addr >= 0xD000 && addr < MMUBase.RAMM && this.cgb) {
+            this.wram[(((bank ?? this.wramBank) & 7) << 12) | (addr & 0x0FFF)] = v;
+        }
+        else if (addr >= MMUBase.REGS && addr < MMUBase.RAMH) {
+            this.write(addr, v);
+        }
+        else {
+            this.mem[addr] = v;
+        }
+    }
+
+    // VRAM access for the PPU, independent of the bank selected by the CPU
+    readVRAM(bank: number, addr: number): number {
+        return this.cgb ? this.vram[(bank << 13) | (addr & 0x1FFF)] : this.mem[MMUBase.VRAM + (addr & 0x1FFF)];
+    }
+
+    mapRegion(region: MemoryRegion) {
+        if (region.start < MMUBase.REGS || region.start + region.length > MMUBase.RAMH) {
+            throw 'Region outside IO registers ' + region.start.toString(16);
+        }
+
+        for (let i = 0; i < region.length; i++) {
+            this.ioRegions[(region.start + i) & 0x7F] = region;
+        }
+    }
+
+    unmapRegion(region: MemoryRegion) {
+        for (let i = 0; i < this.ioRegions.length; i++) {
+            if (this.ioRegions[i] === region) {
+                this.ioRegions[i] = null;
+            }
+        }
+    }
+
     read(addr: number): number {
-        if (addr >= 0x4000 && addr < 0x8000) {
+        if (addr >= MMUBase.REGS && addr < MMUBase.RAMH) {
+            const region = this.ioRegions[addr & 0x7F];
+            if (region) {
+                return region.read(addr);
+            }
+
+            if (this.cgb) {
+                const v = this.readCGBReg(addr);
+                if (v >= 0) {
+                    return v;
+                }
+            }
+        }
+
+        if (addr < 0x4000) {
+            if (this.bootRomActive && (addr < 0x100 || (addr >= 0x200 && addr < this.bootRom!.length))) {
+                return this.bootRom![addr];
+            }
+
+            if (this.rom0Offset) {
+                return this.rom[this.rom0Offset + addr];
+            }
+        }
+        else if (addr < 0x8000) {
+            switch (this.mbc) {
+                case 1: case 2: case 3: case 5:
+                    return this.rom[this.romOffset + (addr & 0x3FFF)];
+            }
+        }
+        else if (addr >= 0xA000 && addr < 0xC000) {
             switch (this.mbc) {
-                case 1: case 3:
-                    if (this.mbc1RomBank) {
-                        return this.rom[(this.mbc1RomBank << 14) + (addr & 0x3FFF)];
+                case 1: case 3: case 5:
+                    if (!this.mbc1RamEnable) {
+                        return 0xFF;
                     }
-                    break;
+
+                    if (this.mbc == 3 && this.mbc1RamBank >= RTCRegister.Seconds) {
+                        return this.rtc && this.mbc1RamBank <= RTCRegister.DayHi ? this.rtc.read(this.mbc1RamBank) : 0xFF;
+                    }
+
+                    return this.ram.length > 0 ? this.ram[this.ramAddr(addr)] : 0xFF;
 
                 case 2:
-                    if (this.mbc2RomBank) {
-                        return this.rom[(this.mbc2RomBank << 14) + (addr & 0x3FFF)];
+                    if (!this.mbc2RamEnable) {
+                        return 0xFF;
+                    }
+
+                    return this.ram[addr & 0x1FF] | 0xF0;
+
+                case 0:
+                    // ROM+RAM carts have no enable register
+                    if (this.ram.length > 0) {
+                        return this.ram[this.ramAddr(addr)];
                     }
                     break;
             }
         }
+        else if (addr >= MMUBase.RAMM && addr < MMUBase.OAMS) {
+            return this.read(addr - 0x2000);
+        }
+        else if (this.cgb) {
+            if (addr >= MMUBase.VRAM && addr < MMUBase.RAMB) {
+                return this.vram[(this.vramBank << 13) | (addr & 0x1FFF)];
+            }
+            else if (addr >= 0xD000 && addr < MMUBase.RAMM) {
+                return this.wram[(this.wramBank << 12) | (addr & 0x0FFF)];
+            }
+        }
 
         return this.mem[addr];
     }
@@ -140,11 +617,45 @@ export default class MMU {
         v &= 0xFF;
 
         if (addr >= 0xFF00) {
-            if (addr == 0xFF46) {
-                const dmaAddr = v << 8;
-                for (let i = 0; i < 0xA0; i++) {
-                    this.mem[0xFE00 + i] = this.mem[dmaAddr + i];
+            if (addr < MMUBase.RAMH) {
+                const region = this.ioRegions[addr & 0x7F];
+                if (region) {
+                    region.write(addr, v);
+                    return;
+                }
+
+                if (this.cgb && this.writeCGBReg(addr, v)) {
+                    return;
                 }
+            }
+
+            if (addr == MMUBase.REGS + IORegister.BootROMDisable) {
+                // Can't be mapped back in once disabled
+                if (v != 0) {
+                    this.bootRomActive = false;
+                }
+            }
+
+            if (addr == MMUBase.REGS + IORegister.OAMDMA) {
+                this.mem[addr] = v;
+                // Sources past WRAM continue into its echo
+                this.dmaSource = (v >= 0xE0 ? v - 0x20 : v) << 8;
+                this.dmaIndex = 0;
+                this.dmaDelay = 1;
+                return;
+            }
+        }
+        else if (addr >= MMUBase.RAMM && addr < MMUBase.OAMS) {
+            this.write(addr - 0x2000, v);
+            return;
+        }
+        else if (this.cgb) {
+            if (addr >= MMUBase.VRAM && addr < MMUBase.RAMB) {
+                this.vram[(this.vramBank << 13) | (addr & 0x1FFF)] = v;
+                return;
+            }
+            else if (addr >= 0xD000 && addr < MMUBase.RAMM) {
+                this.wram[(this.wramBank << 12) | (addr & 0x0FFF)] = v;
                 return;
             }
         }
@@ -152,24 +663,74 @@ export default class MMU {
         switch (this.mbc) {
             case 1: case 3:
                 if (addr < 0x2000) {
-                    // this.mbc1RamEnable = v > 0;
+                    this.mbc1RamEnable = (v & 0x0F) == 0x0A;
                 }
                 else if (addr < 0x4000) {
-                    this.mbc1RomBank = v & 0x1F;
-                    if (v == 0x00 || v == 0x20 || v == 0x40 || v == 0x60) {
-                        ++this.mbc1RomBank;
+                    if (this.mbc == 1) {
+                        this.mbc1RomBank = v & 0x1F;
                     }
+                    else {
+                        this.mbc1RomBank = v & 0x7F;
+                    }
+
+                    if (this.mbc1RomBank == 0) {
+                        this.mbc1RomBank = 1;
+                    }
+                    this.updateBanks();
                 }
                 else if (addr < 0x6000) {
-                    if (this.mbc1RomMode == 0) {
-                        this.mbc1RomBank |= (v & 3) << 5;
+                    this.mbc1RamBank = this.mbc == 1 ? (v & 0x03) : (v & 0x0F);
+                    this.updateBanks();
+                }
+                else if (addr < 0x8000) {
+                    if (this.mbc == 1) {
+                        this.mbc1RomMode = v & 0x01;
+                        this.updateBanks();
+                    }
+                    else if (this.rtc) {
+                        this.rtc.latch(v);
+                    }
+                }
+                else if (addr >= 0xA000 && addr < 0xC000) {
+                    if (this.mbc == 3 && this.mbc1RamBank >= RTCRegister.Seconds) {
+                        if (this.mbc1RamEnable && this.rtc && this.mbc1RamBank <= RTCRegister.DayHi) {
+                            this.rtc.write(this.mbc1RamBank, v);
+                            this.ramDirty = true;
+                        }
                     }
                     else {
-                        this.mbc1RomBank = v & 3;
+                        this.writeRam(addr, v);
                     }
                 }
+                else {
+                    this.mem[addr] = v;
+                }
+                break;
+
+            case 5:
+                if (addr < 0x2000) {
+                    this.mbc1RamEnable = (v & 0x0F) == 0x0A;
+                }
+                else if (addr < 0x3000) {
+                    this.mbc5RomBank = (this.mbc5RomBank & 0x100) | v;
+                    this.updateBanks();
+                }
+                else if (addr < 0x4000) {
+                    this.mbc5RomBank = (this.mbc5RomBank & 0xFF) | ((v & 0x01) << 8);
+                    this.updateBanks();
+                }
+                else if (addr < 0x6000) {
+                    this.mbc1RamBank = v & 0x0F;
+                    if (this.rumble) {
+                        this.setRumble((v & 0x08) != 0);
+                    }
+                    this.updateBanks();
+                }
                 else if (addr < 0x8000) {
-                    this.mbc1RomMode = v > 0 ? 1 : 0;
+                    // No banking mode register on MBC5
+                }
+                else if (addr >= 0xA000 && addr < 0xC000) {
+                    this.writeRam(addr, v);
                 }
                 else {
                     this.mem[addr] = v;
@@ -177,29 +738,165 @@ export default class MMU {
                 break;
 
             case 2:
-                if (addr < 0x2000) {
-                    // this.mbc2RamEnable = v > 0;
+                if (addr < 0x4000) {
+                    // Address bit 8 selects between the RAM enable and ROM bank registers
+                    if (addr & 0x100) {
+                        this.mbc2RomBank = v & 0x0F;
+                        if (this.mbc2RomBank == 0) {
+                            this.mbc2RomBank = 1;
+                        }
+                        this.updateBanks();
+                    }
+                    else {
+                        this.mbc2RamEnable = (v & 0x0F) == 0x0A;
+                    }
                 }
-                else if (addr < 0x4000) {
-                    this.mbc2RomBank = v & 0x1F;
-                    if (v == 0x00 || v == 0x20 || v == 0x40 || v == 0x60) {
-                        ++this.mbc2RomBank;
+                else if (addr < 0x8000) {
+                    // No registers above 0x4000 on MBC2
+                }
+                else if (addr >= 0xA000 && addr < 0xC000) {
+                    if (this.mbc2RamEnable) {
+                        const ramAddr = addr & 0x1FF;
+                        if (this.ram[ramAddr] != (v & 0x0F)) {
+                            this.ram[ramAddr] = v & 0x0F;
+                            this.ramDirty = true;
+                        }
                     }
                 }
-                else if (addr >= 0x8000) {
+                else {
                     this.mem[addr] = v;
                 }
                 break;
 
             case 0:
             default:
-                if (addr >= 0x8000) {
+                if (addr >= 0xA000 && addr < 0xC000 && this.ram.length > 0) {
+                    const ramAddr = this.ramAddr(addr);
+                    if (this.ram[ramAddr] != v) {
+                        this.ram[ramAddr] = v;
+                        this.ramDirty = true;
+                    }
+                }
+                else if (addr >= 0x8000) {
                     this.mem[addr] = v;
                 }
                 break;
         }
     }
 
+    hasBattery(): boolean {
+        return this.battery && (this.ram.length > 0 || this.rtc != null);
+    }
+
+    getHeader(): CartridgeHeader { return this.header; }
+    getRTC(): RTC | null { return this.rtc; }
+
+    isSaveDirty(): boolean { return this.ramDirty; }
+    clearSaveDirty(): void { this.ramDirty = false; }
+    markSaveDirty(): void { this.ramDirty = true; }
+
+    exportSave(): Uint8Array {
+        if (!this.rtc) {
+            return this.ram.slice();
+        }
+
+        const data = new Uint8Array(this.ram.length + RTC_SAVE_SIZE);
+        data.set(this.ram);
+        data.set(this.rtc.exportSave(), this.ram.length);
+        return data;
+    }
+
+    importSave(data: Uint8Array): void {
+        // Raw .sav files are the RAM contents, with the RTC appended for MBC3 timer carts.
+        // Pad or truncate mismatched sizes.
+        this.ram.fill(0);
+        this.ram.set(data.subarray(0, this.ram.length));
+        if (this.rtc && data.length >= this.ram.length + RTC_SAVE_SIZE_32) {
+            this.rtc.importSave(data.subarray(this.ram.length));
+        }
+        this.ramDirty = false;
+    }
+
+    serialize(w: StateWriter) {
+        w.bytes(this.mem);
+        w.bytes(this.ram);
+        w.bool(this.mbc1RamEnable);
+        w.bool(this.mbc2RamEnable);
+        w.u16(this.mbc1RomBank);
+        w.u16(this.mbc2RomBank);
+        w.u8(this.mbc1RamBank);
+        w.u8(this.mbc1RomMode);
+        w.u16(this.mbc5RomBank);
+        w.bool(this.rumbleActive);
+        w.bool(this.bootRomActive);
+        w.u16(this.dmaSource);
+        w.u8(this.dmaIndex);
+        w.u8(this.dmaDelay);
+        w.u8(this.dmaValue);
+        if (this.rtc) {
+            this.rtc.serialize(w);
+        }
+
+        if (this.cgb) {
+            w.bytes(this.vram);
+            w.bytes(this.wram);
+            w.u8(this.vramBank);
+            w.u8(this.wramBank);
+            w.bool(this.doubleSpeed);
+            w.bool(this.speedSwitchArmed);
+            w.u16(this.hdmaSource);
+            w.u16(this.hdmaDest);
+            w.u8(this.hdmaBlocks);
+            w.bool(this.hdmaHBlank);
+        }
+    }
+
+    deserialize(r: StateReader) {
+        r.bytes(this.mem);
+        r.bytes(this.ram);
+        this.mbc1RamEnable = r.bool();
+        this.mbc2RamEnable = r.bool();
+        this.mbc1RomBank = r.u16();
+        this.mbc2RomBank = r.u16();
+        this.mbc1RamBank = r.u8();
+        this.mbc1RomMode = r.u8();
+        this.mbc5RomBank = r.u16();
+        this.setRumble(r.bool());
+        this.bootRomActive = r.bool() && this.bootRom != null;
+        this.dmaSource = r.u16();
+        this.dmaIndex = r.u8();
+        this.dmaDelay = r.u8();
+        this.dmaValue = r.u8();
+        if (this.rtc) {
+            this.rtc.deserialize(r);
+        }
+
+        if (this.cgb) {
+            r.bytes(this.vram);
+            r.bytes(this.wram);
+            this.vramBank = r.u8();
+            this.wramBank = r.u8();
+            this.doubleSpeed = r.bool();
+            this.speedSwitchArmed = r.bool();
+            this.hdmaSource = r.u16();
+            this.hdmaDest = r.u16();
+            this.hdmaBlocks = r.u8();
+            this.hdmaHBlank = r.bool();
+        }
+
+        this.updateBanks();
+        this.ramDirty = true;
+    }
+
+    // Takes normal speed cycles; DMA runs at the CPU's speed
+    Step(cycles: number): void {
+        this.stepDMA(this.doubleSpeed ? cycles * 2 : cycles);
+
+        if (this.rtc) {
+            this.rtc.Step(cycles);
+        }
+    }
+
     readReg(reg: IORegister): number {
         return this.read(MMUBase.REGS + reg);
     }
@@ -0,0 +1,362 @@
+import { hex } from './cartridge';
+import type Emulator from './emulator';
+import MemoryViewer, { BANKED_REGIONS } from './memview';
+import { MMUBase } from './mmu';
+import PPU from './ppu';
+import VRAMViewer, { MAP_SIZE, OAMEntry, TILES_HEIGHT, TILES_WIDTH } from './vram';
+
+function createCanvas(parent: HTMLElement, width: number, height: number, title: string): CanvasRenderingContext2D {
+    const figure = document.createElement('figure');
+    const caption = document.createElement('figcaption');
+    caption.textContent = title;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    figure.appendChild(caption);
+    figure.appendChild(canvas);
+    parent.appendChild(figure);
+    return canvas.getContext('2d') as CanvasRenderingContext2D;
+}
+
+function draw(ctx: CanvasRenderingContext2D, width: number, height: number, pixels: Uint8ClampedArray) {
+    ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+}
+
+function describeSprite(entry: OAMEntry, cgb: boolean): string {
+    const flags = [cgb ? 'pal ' + entry.palette + ' bank ' + entry.bank : 'OBP' + entry.palette];
+    if (entry.flipX) {
+        flags.push('X flip');
+    }
+    if (entry.flipY) {
+        flags.push('Y flip');
+    }
+    if (entry.behindBG) {
+        flags.push('behind BG');
+    }
+    return flags.join(', ');
+}
+
+// Tile data, both tile maps with the visible area outlined and the sprites in OAM, redrawn by refresh while shown
+export class VRAMPanel {
+    private emulator: Emulator;
+    private viewer: VRAMViewer;
+    private element: HTMLElement;
+
+    private tiles: CanvasRenderingContext2D[];
+    private maps: CanvasRenderingContext2D[];
+    private oamRows: { cells: HTMLTableCellElement[], preview: CanvasRenderingContext2D }[];
+
+    constructor(emulator: Emulator, element: HTMLElement) {
+        this.emulator = emulator;
+        this.viewer = new VRAMViewer(emulator);
+        this.element = element;
+
+        const images = document.createElement('div');
+        images.className = 'vram-images';
+        element.appendChild(images);
+        this.tiles = [0, 1].map(bank => createCanvas(images, TILES_WIDTH, TILES_HEIGHT, 'Tiles, bank ' + bank));
+        this.maps = [0x9800, 0x9C00].map(addr => createCanvas(images, MAP_SIZE, MAP_SIZE, 'Map $' + hex(addr, 4)));
+
+        const table = document.createElement('table');
+        table.className = 'oam-table';
+        const header = table.insertRow();
+        for (const title of ['#', 'X', 'Y', 'Tile', 'Attr', 'Flags', '']) {
+            header.insertCell().textContent = title;
+        }
+        this.oamRows = [];
+        for (let i = 0; i < 40; i++) {
+            const row = table.insertRow();
+            const cells = [0, 1, 2, 3, 4, 5].map(() => row.insertCell());
+            const canvas = document.createElement('canvas');
+            canvas.width = 8;
+            canvas.height = 16;
+            row.insertCell().appendChild(canvas);
+            this.oamRows.push({ cells, preview: canvas.getContext('2d') as CanvasRenderingContext2D });
+        }
+        element.appendChild(table);
+
+        this.setVisible(false);
+    }
+
+    isVisible(): boolean { return this.element.style.display != 'none'; }
+
+    setVisible(visible: boolean) {
+        this.element.style.display = visible ? '' : 'none';
+        if (visible) {
+            this.refresh();
+        }
+    }
+
+    // Called for each frame shown and debugger stop, does nothing while hidden
+    refresh() {
+        if (!this.isVisible()) {
+            return;
+        }
+
+        const cgb = this.emulator.isCGB();
+        (this.tiles[1].canvas.parentElement as HTMLElement).style.display = cgb ? '' : 'none';
+        this.tiles.forEach((ctx, bank) => {
+            if (bank == 0 || cgb) {
+                draw(ctx, TILES_WIDTH, TILES_HEIGHT, this.viewer.renderTiles(bank));
+            }
+        });
+
+        const viewport = this.viewer.getViewport();
+        [0x9800, 0x9C00].forEach((addr, i) => {
+            const ctx = this.maps[i];
+            draw(ctx, MAP_SIZE, MAP_SIZE, this.viewer.renderMap(addr));
+            ctx.lineWidth = 1;
+
+            // The screen wraps around the map edges
+            if (addr == viewport.bgMap) {
+                ctx.strokeStyle = '#F00';
+                for (const dx of [0, -MAP_SIZE]) {
+                    for (const dy of [0, -MAP_SIZE]) {
+                        ctx.strokeRect(viewport.scx + dx + 0.5, viewport.scy + dy + 0.5, PPU.BUF_WIDTH - 1, PPU.BUF_HEIGHT - 1);
+                    }
+                }
+            }
+
+            // The window always starts at the top left of its map
+            if (viewport.windowEnabled && addr == viewport.windowMap) {
+                ctx.strokeStyle = '#0AF';
+                ctx.strokeRect(0.5, 0.5, PPU.BUF_WIDTH - Math.max(viewport.wx, 0) - 1, PPU.BUF_HEIGHT - viewport.wy - 1);
+            }
+        });
+
+        this.viewer.getOAM().forEach((entry, i) => {
+            const row = this.oamRows[i];
+            const values = [
+                entry.index.toString(), entry.x.toString(), entry.y.toString(),
+                '$' + hex(entry.tile, 2), '$' + hex(entry.attr, 2),
+                describeSprite(entry, cgb),
+            ];
+            values.forEach((v, c) => row.cells[c].textContent = v);
+            (row.cells[0].parentElement as HTMLElement).className = entry.visible ? '' : 'offscreen';
+
+            row.preview.clearRect(0, 0, 8, 16);
+            draw(row.preview, 8, viewport.spriteHeight, this.viewer.renderSprite(entry, viewport.spriteHeight));
+        });
+    }
+}
+
+const ROWS = 16;
+const REGION_NAMES = ['ROM0', 'ROMX', 'VRAM', 'SRAM', 'WRAMX'];
+
+// Hex view of the whole address space with bank selectors and inline editing, plus the IO registers decoded
+export class MemoryPanel {
+    private emulator: Emulator;
+    private viewer: MemoryViewer;
+    private element: HTMLElement;
+
+    private base: number;
+    private editing: number;
+    private bypass: HTMLInputElement;
+    private bankSelects: HTMLSelectElement[];
+    private bankRanges: string;
+    private rows: { address: HTMLElement, bytes: HTMLElement[], text: HTMLElement }[];
+    private ioTable: HTMLTableElement;
+
+    constructor(emulator: Emulator, element: HTMLElement) {
+        this.emulator = emulator;
+        this.viewer = new MemoryViewer(emulator);
+        this.element = element;
+        this.base = MMUBase.RAMW;
+        this.editing = -1;
+        this.bankRanges = '';
+
+        const controls = document.createElement('div');
+        controls.className = 'memory-controls';
+        element.appendChild(controls);
+
+        const goTo = document.createElement('input');
+        goTo.placeholder = 'Go to address';
+        goTo.size = 12;
+        goTo.addEventListener('keydown', (ev: KeyboardEvent) => {
+            ev.stopPropagation();
+            if (ev.key == 'Enter' && /^\$?[0-9a-f]{1,4}$/i.test(goTo.value)) {
+                this.scrollTo(parseInt(goTo.value.replace('$', ''), 16) & 0xFFF0);
+            }
+        });
+        controls.appendChild(goTo);
+
+        for (const [label, delta] of [['-100', -0x100], ['-10', -0x10], ['+10', 0x10], ['+100', 0x100]] as [string, number][]) {
+            const button = document.createElement('button');
+            button.textContent = label;
+            button.addEventListener('click', () => this.scrollTo(this.base + delta));
+            controls.appendChild(button);
+        }
+
+        this.bankSelects = BANKED_REGIONS.map((start, i) => {
+            const select = document.createElement('select');
+            select.title = REGION_NAMES[i] + ' bank';
+            select.addEventListener('change', () => {
+                this.viewer.setBank(start, select.value == '' ? null : parseInt(select.value, 10));
+                this.redraw();
+            });
+            controls.appendChild(select);
+            return select;
+        });
+
+        const bypassLabel = document.createElement('label');
+        this.bypass = document.createElement('input');
+        this.bypass.type = 'checkbox';
+        this.bypass.checked = true;
+        bypassLabel.appendChild(this.bypass);
+        bypassLabel.appendChild(document.createTextNode(' Edit without side effects'));
+        controls.appendChild(bypassLabel);
+
+        const hexView = document.createElement('div');
+        hexView.className = 'hex-view';
+        element.appendChild(hexView);
+        this.rows = [];
+        for (let r = 0; r < ROWS; r++) {
+            const line = document.createElement('div');
+            const address = document.createElement('span');
+            line.appendChild(address);
+            const bytes: HTMLElement[] = [];
+            for (let c = 0; c < 16; c++) {
+                const byte = document.createElement('span');
+                byte.className = 'byte';
+                byte.addEventListener('click', () => this.edit(byte, this.base + r * 16 + c));
+                line.appendChild(byte);
+                bytes.push(byte);
+            }
+            const text = document.createElement('span');
+            text.className = 'text';
+            line.appendChild(text);
+            hexView.appendChild(line);
+            this.rows.push({ address, bytes, text });
+        }
+
+        this.ioTable = document.createElement('table');
+        this.ioTable.className = 'io-table';
+        element.appendChild(this.ioTable);
+
+        this.setVisible(false);
+    }
+
+    isVisible(): boolean { return this.element.style.display != 'none'; }
+
+    setVisible(visible: boolean) {
+        this.element.style.display = visible ? '' : 'none';
+        if (visible) {
+            this.refresh();
+        }
+    }
+
+    private scrollTo(base: number) {
+        this.base = Math.min(Math.max(base, 0), 0x10000 - ROWS * 16);
+        this.editing = -1;
+        this.redraw();
+    }
+
+    // Swaps the byte for an input, Enter writes the hex value typed and Escape leaves it unchanged
+    private edit(byte: HTMLElement, addr: number) {
+        if (this.editing >= 0) {
+            return;
+        }
+
+        this.editing = addr;
+        const input = document.createElement('input');
+        input.size = 2;
+        input.maxLength = 2;
+        input.value = byte.textContent || '';
+        byte.textContent = '';
+        byte.appendChild(input);
+        input.focus();
+        input.select();
+
+        const finish = () => {
+            this.editing = -1;
+            this.redraw();
+        };
+        input.addEventListener('blur', finish);
+        input.addEventListener('keydown', (ev: KeyboardEvent) => {
+            // Typing shouldn't press buttons or trigger hotkeys
+            ev.stopPropagation();
+            if (ev.key == 'Enter' && /^[0-9a-f]{1,2}$/i.test(input.value)) {
+                this.viewer.write(addr, parseInt(input.value, 16), this.bypass.checked);
+                input.blur();
+            }
+            else if (ev.key == 'Escape') {
+                input.blur();
+            }
+        });
+    }
+
+    // Bank counts change with the cartridge and CGB mode
+    private updateBankSelects() {
+        const mmu = this.emulator.getMMU();
+        const ranges = BANKED_REGIONS.map(start => mmu.getBankRange(start));
+        if (ranges.join() == this.bankRanges) {
+            return;
+        }
+
+        this.bankRanges = ranges.join();
+        this.bankSelects.forEach((select, i) => {
+            const [first, last] = ranges[i];
+            select.innerHTML = '';
+            select.add(new Option(REGION_NAMES[i] + ': mapped', ''));
+            for (let bank = first; bank <= last; bank++) {
+                select.add(new Option(REGION_NAMES[i] + ': ' + bank, bank.toString()));
+            }
+            select.disabled = first == last;
+            this.viewer.setBank(BANKED_REGIONS[i], null);
+        });
+    }
+
+    private updateIO() {
+        const registers = this.viewer.getIORegisters();
+        if (this.ioTable.rows.length != registers.length) {
+            this.ioTable.innerHTML = '';
+            for (let i = 0; i < registers.length; i++) {
+                const row = this.ioTable.insertRow();
+                [0, 1, 2, 3].forEach(() => row.insertCell());
+            }
+        }
+
+        registers.forEach((reg, i) => {
+            const cells = this.ioTable.rows[i].cells;
+            cells[0].textContent = '$' + hex(reg.address, 4);
+            cells[1].textContent = reg.name;
+            cells[2].textContent = '$' + hex(reg.value, 2);
+            cells[3].textContent = reg.fields.map(f => f.name + ': ' + f.value).join(', ');
+        });
+    }
+
+    // Called for each frame shown and debugger stop, does nothing while hidden. Highlights bytes changed since the last call.
+    refresh() {
+        if (!this.isVisible()) {
+            return;
+        }
+
+        this.viewer.snapshot();
+        this.redraw();
+    }
+
+    // Scrolling, editing and switching banks keep the highlights from the last refresh
+    private redraw() {
+        if (!this.isVisible()) {
+            return;
+        }
+
+        this.updateBankSelects();
+        this.rows.forEach((row, r) => {
+            const rowAddr = this.base + r * 16;
+            row.address.textContent = hex(rowAddr, 4);
+            let text = '';
+            row.bytes.forEach((byte, c) => {
+                const addr = rowAddr + c;
+                const v = this.viewer.read(addr);
+                text += v >= 0x20 && v < 0x7F ? String.fromCharCode(v) : '.';
+                if (addr != this.editing) {
+                    byte.textContent = hex(v, 2);
+                    byte.className = this.viewer.changed(addr) ? 'byte changed' : 'byte';
+                }
+            });
+            row.text.textContent = text;
+        });
+        this.updateIO();
+    }
+}
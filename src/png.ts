@@ -0,0 +1,63 @@
+import zlib from 'zlib';
+
+export const enum PNGColorType {
+    Grayscale = 0,
+    RGB = 2,
+    RGBA = 6,
+}
+
+const CHANNELS = { [PNGColorType.Grayscale]: 1, [PNGColorType.RGB]: 3, [PNGColorType.RGBA]: 4 };
+
+const crcTable = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+    }
+    crcTable[n] = c >>> 0;
+}
+
+function crc32(data: Uint8Array): number {
+    let c = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        c = crcTable[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+    }
+    return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+    const buf = Buffer.alloc(12 + data.length);
+    buf.writeUInt32BE(data.length, 0);
+    buf.write(type, 4, 'ascii');
+    buf.set(data, 8);
+    buf.writeUInt32BE(crc32(buf.subarray(4, 8 + data.length)), 8 + data.length);
+    return buf;
+}
+
+// 8 bits per channel, pixels packed row by row without padding
+export function encodePNG(width: number, height: number, colorType: PNGColorType, pixels: Uint8Array): Buffer {
+    const channels = CHANNELS[colorType];
+    const stride = width * channels;
+    if (pixels.length != stride * height) {
+        throw 'Expected ' + stride * height + ' bytes of pixels, got ' + pixels.length;
+    }
+
+    // Each row starts with filter type 0 (none)
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = colorType;
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', new Uint8Array(0)),
+    ]);
+}
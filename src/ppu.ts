@@ -1,5 +1,6 @@
 import GB, { IOInterrupt } from "./gb";
-import MMU, { MMUBase, IORegister } from "./mmu";
+import MMU, { MMUBase, IORegister, MemoryRegion } from "./mmu";
+import { StateReader, StateWriter } from "./state";
 
 export const enum PPUState {
     OAM = 0,
@@ -14,9 +15,15 @@ export interface PPUSprite {
     attr: number;
 }
 
-export default class PPU {
+export default class PPU implements MemoryRegion {
     public static BUF_WIDTH = 160;
     public static BUF_HEIGHT = 144;
+    // DMG colour numbers 0-3 after the palette, as framebuffer shades
+    public static readonly SHADES = [0xFF, 0xAA, 0x85, 0];
+
+    // CGB palette registers
+    public readonly start = MMUBase.REGS + IORegister.BGPaletteIndex;
+    public readonly length = 4;
 
     private mmu: MMU;
 
@@ -28,6 +35,18 @@ export default class PPU {
     private backbuffer: Uint8Array;
     private framebuffer: Uint8Array;
 
+    // CGB renders RGB555 colours through eight BG and eight OBJ palettes of four colours each
+    private cgb: boolean;
+    private bgPalettes: Uint8Array;
+    private objPalettes: Uint8Array;
+    private bgPaletteIndex: number;
+    private objPaletteIndex: number;
+    private colorBackbuffer: Uint16Array;
+    private colorFramebuffer: Uint16Array;
+
+    // Called on entering VBlank, once the finished frame is in the framebuffer
+    public onVBlank: (() => void) | null;
+
     constructor(mmu: MMU) {
         this.mmu = mmu;
 
@@ -38,17 +57,109 @@ export default class PPU {
 
         this.framebuffer = new Uint8Array(PPU.BUF_WIDTH * PPU.BUF_HEIGHT);
         this.backbuffer = new Uint8Array(PPU.BUF_WIDTH * PPU.BUF_HEIGHT);
+
+        this.cgb = mmu.isCGB();
+        this.bgPalettes = new Uint8Array(64).fill(0xFF);
+        this.objPalettes = new Uint8Array(64).fill(0xFF);
+        this.bgPaletteIndex = 0;
+        this.objPaletteIndex = 0;
+        this.colorFramebuffer = new Uint16Array(this.cgb ? PPU.BUF_WIDTH * PPU.BUF_HEIGHT : 0);
+        this.colorBackbuffer = new Uint16Array(this.cgb ? PPU.BUF_WIDTH * PPU.BUF_HEIGHT : 0);
+        this.onVBlank = null;
+        if (this.cgb) {
+            mmu.mapRegion(this);
+        }
     }
 
+    // Shades from 0 (black) to 0xFF (white), DMG only
     getFramebuffer(): Uint8Array {
         return this.framebuffer;
     }
 
-    private ppuLinePixel(line: number[], x: number): number {
+    isCGB(): boolean { return this.cgb; }
+
+    // RGB555 colours, CGB only
+    getColorFramebuffer(): Uint16Array {
+        return this.colorFramebuffer;
+    }
+
+    read(addr: number): number {
+        switch (addr & 0xFF) {
+            case IORegister.BGPaletteIndex: return this.bgPaletteIndex | 0x40;
+            case IORegister.BGPaletteData: return this.bgPalettes[this.bgPaletteIndex & 0x3F];
+            case IORegister.OBJPaletteIndex: return this.objPaletteIndex | 0x40;
+            default: return this.objPalettes[this.objPaletteIndex & 0x3F];
+        }
+    }
+
+    write(addr: number, v: number): void {
+        switch (addr & 0xFF) {
+            case IORegister.BGPaletteIndex: this.bgPaletteIndex = v & 0xBF; break;
+            case IORegister.BGPaletteData: this.bgPaletteIndex = this.writePalette(this.bgPalettes, this.bgPaletteIndex, v); break;
+            case IORegister.OBJPaletteIndex: this.objPaletteIndex = v & 0xBF; break;
+            default: this.objPaletteIndex = this.writePalette(this.objPalettes, this.objPaletteIndex, v); break;
+        }
+    }
+
+    // Bit 7 of the index register auto-increments it after each data write
+    private writePalette(palettes: Uint8Array, index: number, v: number): number {
+        palettes[index & 0x3F] = v;
+        return (index & 0x80) ? (0x80 | ((index + 1) & 0x3F)) : index;
+    }
+
+    serialize(w: StateWriter) {
+        w.u8(this.state);
+        w.f64(this.stateTicks);
+        w.bytes(this.backbuffer);
+        w.bytes(this.framebuffer);
+
+        w.u8(this.scanlineSprites.length);
+        for (const sp of this.scanlineSprites) {
+            w.u8(sp.x);
+            w.u8(sp.attr);
+            w.u8(sp.pixels[0]);
+            w.u8(sp.pixels[1]);
+        }
+
+        if (this.cgb) {
+            w.bytes(this.bgPalettes);
+            w.bytes(this.objPalettes);
+            w.u8(this.bgPaletteIndex);
+            w.u8(this.objPaletteIndex);
+            w.bytes(new Uint8Array(this.colorBackbuffer.buffer));
+            w.bytes(new Uint8Array(this.colorFramebuffer.buffer));
+        }
+    }
+
+    deserialize(r: StateReader) {
+        this.state = r.u8();
+        this.stateTicks = r.f64();
+        r.bytes(this.backbuffer);
+        r.bytes(this.framebuffer);
+
+        this.scanlineSprites.length = 0;
+        const count = r.u8();
+        for (let i = 0; i < count; i++) {
+            const x = r.u8();
+            const attr = r.u8();
+            this.scanlineSprites.push({ x, attr, pixels: [r.u8(), r.u8()] });
+        }
+
+        if (this.cgb) {
+            r.bytes(this.bgPalettes);
+            r.bytes(this.objPalettes);
+            this.bgPaletteIndex = r.u8();
+            this.objPaletteIndex = r.u8();
+            r.bytes(new Uint8Array(this.colorBackbuffer.buffer));
+            r.bytes(new Uint8Array(this.colorFramebuffer.buffer));
+        }
+    }
+
+    ppuLinePixel(line: number[], x: number): number {
         return (((line[0] << x) & 0x80) >> 7) | (((line[1] << x) & 0x80) >> 6);
     }
 
-    private ppuTileLineAddress(idx: number, y: number, lowBank: boolean) {
+    ppuTileLineAddress(idx: number, y: number, lowBank: boolean) {
         const addr = lowBank ? (idx << 4) : (0x1000 + (GB.toUnsigned8(idx) << 4));
 
         return addr + (y << 1);
@@ -146,6 +257,91 @@ export default class PPU {
         }
     }
 
+    private cgbColor(palettes: Uint8Array, pal: number, pixel: number): number {
+        const i = (pal << 3) | (pixel << 1);
+        return (palettes[i] | (palettes[i + 1] << 8)) & 0x7FFF;
+    }
+
+    // RGB555 colours from CGB palette RAM, for debug views
+    getBGColor(pal: number, pixel: number): number { return this.cgbColor(this.bgPalettes, pal, pixel); }
+    getOBJColor(pal: number, pixel: number): number { return this.cgbColor(this.objPalettes, pal, pixel); }
+
+    // Tile attributes in VRAM bank 1: palette (0-2), tile bank (3), X flip (5), Y flip (6) and BG priority (7).
+    // LCDC bit 0 clears every BG priority instead of disabling the background.
+    private ppuDrawScanlineCGB(scanY: number) {
+        const lcdc = this.mmu.readReg(IORegister.LCDControl);
+        const himapBg = (lcdc & 0x08) != 0;
+        const himapWin = (lcdc & 0x40) != 0;
+        const masterPriority = (lcdc & 0x01) != 0;
+        const enableSprite = (lcdc & 0x02) != 0 && this.scanlineSprites.length > 0;
+        const loTiles = (lcdc & 0x10) != 0;
+
+        const scX = this.mmu.readReg(IORegister.ScrollX);
+        const scY = this.mmu.readReg(IORegister.ScrollY);
+        const winX = this.mmu.readReg(IORegister.WindowX);
+        const winY = this.mmu.readReg(IORegister.WindowY);
+        const enableWin = (lcdc & 0x20) != 0 && winX < 167 && winY < 144 && winY <= scanY;
+
+        const curTileData = [0, 0];
+        let curTileKey = -1;
+        let attr = 0;
+
+        for (let x = 0; x < PPU.BUF_WIDTH; x++) {
+            let mapX: number;
+            let mapY: number;
+            let hiMap: boolean;
+            if (enableWin && x + 7 >= winX) {
+                mapX = x + 7 - winX;
+                mapY = scanY - winY;
+                hiMap = himapWin;
+            }
+            else {
+                mapX = (x + scX) & 0xFF;
+                mapY = (scanY + scY) & 0xFF;
+                hiMap = himapBg;
+            }
+
+            const mapAddr = (hiMap ? 0x1C00 : 0x1800) + ((mapY >> 3) << 5) + (mapX >> 3);
+            const tileKey = (mapAddr << 3) | (mapY & 7);
+            if (tileKey != curTileKey) {
+                curTileKey = tileKey;
+                attr = this.mmu.readVRAM(1, mapAddr);
+                const tileY = (attr & 0x40) ? 7 - (mapY & 7) : (mapY & 7);
+                const addr = this.ppuTileLineAddress(this.mmu.readVRAM(0, mapAddr), tileY, loTiles);
+                const bank = (attr >> 3) & 1;
+                curTileData[0] = this.mmu.readVRAM(bank, addr);
+                curTileData[1] = this.mmu.readVRAM(bank, addr + 1);
+            }
+
+            const bg = this.ppuLinePixel(curTileData, (attr & 0x20) ? 7 - (mapX & 7) : (mapX & 7));
+            let color = this.cgbColor(this.bgPalettes, attr & 0x07, bg);
+
+            if (enableSprite) {
+                // Lower OAM index wins, the first opaque sprite pixel decides even if the BG covers it
+                for (let i = 0; i < this.scanlineSprites.length; i++) {
+                    const sp = this.scanlineSprites[i];
+                    if (x + 8 < sp.x || x + 8 >= sp.x + 8) {
+                        continue;
+                    }
+
+                    const tileX = x + 8 - sp.x;
+                    const px = this.ppuLinePixel(sp.pixels, (sp.attr & 0x20) != 0 ? (7 - tileX) : tileX);
+                    if (px == 0) {
+                        continue;
+                    }
+
+                    const bgWins = masterPriority && bg != 0 && ((attr & 0x80) != 0 || (sp.attr & 0x80) != 0);
+                    if (!bgWins) {
+                        color = this.cgbColor(this.objPalettes, sp.attr & 0x07, px);
+                    }
+                    break;
+                }
+            }
+
+            this.colorBackbuffer[scanY * PPU.BUF_WIDTH + x] = color;
+        }
+    }
+
     ppuReadSprites(scanY: number) {
         const height = ((this.mmu.readReg(IORegister.LCDControl) & 0x04) != 0) ? 16 : 8;
         this.scanlineSprites.length = 0;
@@ -154,7 +350,8 @@ export default class PPU {
             const x = this.mmu.read(MMUBase.OAMS + i + 1);
             if (x > 0 && y < 160 && x < 168 && scanY + 16 >= y && scanY + 16 < y + height) {
                 let insPos = this.scanlineSprites.length;
-                while (insPos > 0 && this.scanlineSprites[insPos - 1].x > x) {
+                // CGB keeps OAM order instead of sorting by X
+                while (!this.cgb && insPos > 0 && this.scanlineSprites[insPos - 1].x > x) {
                     if (insPos < 10) {
                         this.scanlineSprites[insPos] = this.scanlineSprites[insPos - 1];
                     }
@@ -175,11 +372,12 @@ export default class PPU {
                     }
 
                     const tileAddr = this.ppuTileLineAddress(tile, tileY, true);
+                    const bank = this.cgb ? (attr >> 3) & 1 : 0;
                     const newSprite = {
                         x, attr,
                         pixels: [
-                            this.mmu.read(0x8000 + tileAddr),
-                            this.mmu.read(0x8000 + tileAddr + 1)
+                            this.mmu.readVRAM(bank, tileAddr),
+                            this.mmu.readVRAM(bank, tileAddr + 1)
                         ]
                     };
 
@@ -195,7 +393,7 @@ export default class PPU {
     }
 
     Step(cycles: number, render: boolean): void {
-        const fbPalette = [0xFF, 0xAA, 0x85, 0];
+        const fbPalette = PPU.SHADES;
         const regPalette = this.mmu.readReg(IORegister.BackgroundPalette);
         const lcdControl = this.mmu.readReg(IORegister.LCDControl);
         let lcdStat = this.mmu.readReg(IORegister.LCDStat);
@@ -258,7 +456,12 @@ export default class PPU {
                     if (this.stateTicks >= 63) {
                         if (render) {
                             const lineY = this.mmu.readReg(IORegister.LCDY);
-                            this.ppuDrawScanline(lineY, regPalette);
+                            if (this.cgb) {
+                                this.ppuDrawScanlineCGB(lineY);
+                            }
+                            else {
+                                this.ppuDrawScanline(lineY, regPalette);
+                            }
                         }
 
                         this.state = PPUState.HBlank;
@@ -275,6 +478,8 @@ export default class PPU {
                         if ((lcdStat & 0x80) != 0) {
                             this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) | IOInterrupt.LCDC);
                         }
+
+                        this.mmu.HBlank();
                     }
 
                     if (this.stateTicks >= 114) {
@@ -294,7 +499,10 @@ export default class PPU {
                         this.mmu.writeReg(IORegister.LCDStat, lcdStat);
                         this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) | IOInterrupt.VBlank);
 
-                        if (render) {
+                        if (render && this.cgb) {
+                            this.colorFramebuffer.set(this.colorBackbuffer);
+                        }
+                        else if (render) {
                             for (let y = 0; y < PPU.BUF_HEIGHT; y++) {
                                 let src = y * PPU.BUF_WIDTH;
                                 let dst = y * PPU.BUF_WIDTH;
@@ -305,6 +513,10 @@ export default class PPU {
                                 }
                             }
                         }
+
+                        if (this.onVBlank) {
+                            this.onVBlank();
+                        }
                     }
 
                     if (this.stateTicks >= 114) {
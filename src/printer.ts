@@ -0,0 +1,264 @@
+import { LinkTransport } from './serial';
+
+const MAGIC1 = 0x88;
+const MAGIC2 = 0x33;
+
+// Tile data buffered before printing, 20 tiles wide
+const BUFFER_SIZE = 0x2280;
+const TILE_ROW_BYTES = 20 * 16;
+
+// STATUS replies reporting busy after a print, real printers take a few seconds per strip
+const PRINT_BUSY_POLLS = 4;
+
+export const enum PrinterCommand {
+    Init = 0x01,
+    Print = 0x02,
+    Data = 0x04,
+    Status = 0x0F,
+}
+
+export const enum PrinterStatus {
+    ChecksumError = 0x01,
+    Busy = 0x02,
+    ImageFull = 0x04,
+    Unprocessed = 0x08,
+    PacketError = 0x10,
+}
+
+const enum PacketState {
+    Magic1,
+    Magic2,
+    Command,
+    Compression,
+    LengthLo,
+    LengthHi,
+    Data,
+    ChecksumLo,
+    ChecksumHi,
+    Alive,
+    Status,
+}
+
+export interface PrintedImage {
+    width: number;
+    height: number;
+    // Shades from 0 (black) to 0xFF (white), like the PPU framebuffer
+    pixels: Uint8Array;
+    // Blank line feeds before and after the strip, in units of 2 tile rows
+    marginBefore: number;
+    marginAfter: number;
+}
+
+// Decodes the printer's run length encoding: a control byte with bit 7 clear copies the next n + 1 bytes,
+// with bit 7 set repeats the next byte (n & 0x7F) + 2 times
+export function decompressRLE(data: Uint8Array): Uint8Array {
+    const out: number[] = [];
+    let i = 0;
+    while (i < data.length) {
+        const c = data[i++];
+        if (c & 0x80) {
+            const v = data[i++];
+            for (let j = 0; j < (c & 0x7F) + 2; j++) {
+                out.push(v);
+            }
+        }
+        else {
+            for (let j = 0; j <= c && i < data.length; j++) {
+                out.push(data[i++]);
+            }
+        }
+    }
+
+    return new Uint8Array(out);
+}
+
+// Tiles in rows of 20, 2bpp like VRAM. Each 2 bit pair in palette maps a colour to a shade, 3 being black.
+export function decodeTiles(data: Uint8Array, palette: number): PrintedImage {
+    const rows = Math.floor(data.length / TILE_ROW_BYTES);
+    const width = 160;
+    const height = rows * 8;
+    const pixels = new Uint8Array(width * height);
+    // A zero palette is treated as the default by the printer
+    const pal = palette == 0 ? 0xE4 : palette;
+
+    for (let tile = 0; tile < rows * 20; tile++) {
+        const tx = (tile % 20) * 8;
+        const ty = Math.floor(tile / 20) * 8;
+        for (let y = 0; y < 8; y++) {
+            const lo = data[tile * 16 + y * 2];
+            const hi = data[tile * 16 + y * 2 + 1];
+            for (let x = 0; x < 8; x++) {
+                const color = (((hi >> (7 - x)) & 1) << 1) | ((lo >> (7 - x)) & 1);
+                const shade = (pal >> (color * 2)) & 3;
+                pixels[(ty + y) * width + tx + x] = 0xFF - shade * 0x55;
+            }
+        }
+    }
+
+    return { width, height, pixels, marginBefore: 0, marginAfter: 0 };
+}
+
+// Game Boy Printer on the end of the link cable. Games clock packets out to it:
+// 0x88 0x33, command, compression, length (LE), data, checksum (LE, sum of command to data), then two
+// bytes the printer answers with 0x81 and its status.
+export default class Printer implements LinkTransport {
+    private onPrint: (image: PrintedImage) => void;
+
+    private state: PacketState;
+    private command: number;
+    private compressed: boolean;
+    private length: number;
+    private packet: number[];
+    private checksum: number;
+    private received: number;
+
+    private buffer: number[];
+    private status: number;
+    private busyPolls: number;
+
+    constructor(onPrint: (image: PrintedImage) => void) {
+        this.onPrint = onPrint;
+
+        this.state = PacketState.Magic1;
+        this.command = 0;
+        this.compressed = false;
+        this.length = 0;
+        this.packet = [];
+        this.checksum = 0;
+        this.received = 0;
+
+        this.buffer = [];
+        this.status = 0;
+        this.busyPolls = 0;
+    }
+
+    getStatus(): number { return this.status; }
+
+    transfer(out: number): number {
+        switch (this.state) {
+            case PacketState.Magic1:
+                if (out == MAGIC1) {
+                    this.state = PacketState.Magic2;
+                }
+                break;
+
+            case PacketState.Magic2:
+                this.state = out == MAGIC2 ? PacketState.Command : (out == MAGIC1 ? PacketState.Magic2 : PacketState.Magic1);
+                break;
+
+            case PacketState.Command:
+                this.command = out;
+                this.checksum = out;
+                this.state = PacketState.Compression;
+                break;
+
+            case PacketState.Compression:
+                this.compressed = (out & 1) != 0;
+                this.checksum += out;
+                this.state = PacketState.LengthLo;
+                break;
+
+            case PacketState.LengthLo:
+                this.length = out;
+                this.checksum += out;
+                this.state = PacketState.LengthHi;
+                break;
+
+            case PacketState.LengthHi:
+                this.length |= out << 8;
+                this.checksum += out;
+                this.packet = [];
+                this.state = this.length > 0 ? PacketState.Data : PacketState.ChecksumLo;
+                break;
+
+            case PacketState.Data:
+                this.packet.push(out);
+                this.checksum += out;
+                if (this.packet.length == this.length) {
+                    this.state = PacketState.ChecksumLo;
+                }
+                break;
+
+            case PacketState.ChecksumLo:
+                this.received = out;
+                this.state = PacketState.ChecksumHi;
+                break;
+
+            case PacketState.ChecksumHi:
+                this.received |= out << 8;
+                this.state = PacketState.Alive;
+                break;
+
+            case PacketState.Alive:
+                this.state = PacketState.Status;
+                return 0x81;
+
+            case PacketState.Status:
+                this.state = PacketState.Magic1;
+                this.execute();
+                return this.status;
+        }
+
+        return 0x00;
+    }
+
+    private execute() {
+        if ((this.checksum & 0xFFFF) != this.received) {
+            this.status |= PrinterStatus.ChecksumError;
+            return;
+        }
+
+        this.status &= ~(PrinterStatus.ChecksumError | PrinterStatus.PacketError);
+        switch (this.command) {
+            case PrinterCommand.Init:
+                this.buffer = [];
+                this.status = 0;
+                this.busyPolls = 0;
+                break;
+
+            case PrinterCommand.Data: {
+                // An empty data packet ends the image
+                if (this.packet.length == 0) {
+                    this.status |= PrinterStatus.ImageFull;
+                    break;
+                }
+
+                const data = this.compressed ? decompressRLE(new Uint8Array(this.packet)) : this.packet;
+                for (let i = 0; i < data.length && this.buffer.length < BUFFER_SIZE; i++) {
+                    this.buffer.push(data[i]);
+                }
+                this.status |= PrinterStatus.Unprocessed;
+                if (this.buffer.length >= BUFFER_SIZE) {
+                    this.status |= PrinterStatus.ImageFull;
+                }
+                break;
+            }
+
+            case PrinterCommand.Print: {
+                if (this.packet.length < 4) {
+                    this.status |= PrinterStatus.PacketError;
+                    break;
+                }
+
+                // Sheets and exposure (darkness) are not modelled
+                const image = decodeTiles(new Uint8Array(this.buffer), this.packet[2]);
+                image.marginBefore = this.packet[1] >> 4;
+                image.marginAfter = this.packet[1] & 0x0F;
+                this.buffer = [];
+                this.status = PrinterStatus.Busy;
+                this.busyPolls = PRINT_BUSY_POLLS;
+                this.onPrint(image);
+                break;
+            }
+
+            case PrinterCommand.Status:
+                if (this.busyPolls > 0 && --this.busyPolls == 0) {
+                    this.status &= ~PrinterStatus.Busy;
+                }
+                break;
+
+            default:
+                this.status |= PrinterStatus.PacketError;
+        }
+    }
+}
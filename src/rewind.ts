@@ -0,0 +1,194 @@
+export interface RewindOptions {
+    // Frames between snapshots
+    interval: number;
+    // How far back rewinding can go
+    seconds: number;
+    // Upper bound on the bytes held by compressed snapshots
+    budget: number;
+}
+
+const FRAMES_PER_SECOND = 60;
+
+const defaultOptions: RewindOptions = {
+    interval: 2,
+    seconds: 10,
+    budget: 32 * 1024 * 1024,
+};
+
+function writeVarint(out: number[], v: number) {
+    while (v >= 0x80) {
+        out.push((v & 0x7F) | 0x80);
+        v >>>= 7;
+    }
+    out.push(v);
+}
+
+function readVarint(data: Uint8Array, pos: { p: number }): number {
+    let v = 0;
+    let shift = 0;
+    let b: number;
+    do {
+        b = data[pos.p++];
+        v |= (b & 0x7F) << shift;
+        shift += 7;
+    }
+    while (b & 0x80);
+
+    return v >>> 0;
+}
+
+// Encodes prev ^ next as alternating runs of unchanged and changed bytes.
+// Bytes past the end of the shorter buffer are treated as zero.
+export function encodeDelta(prev: Uint8Array, next: Uint8Array): Uint8Array {
+    const out: number[] = [];
+    writeVarint(out, prev.length);
+
+    const length = Math.max(prev.length, next.length);
+    let i = 0;
+    while (i < length) {
+        let zeros = 0;
+        while (i + zeros < length && (prev[i + zeros] | 0) == (next[i + zeros] | 0)) {
+            ++zeros;
+        }
+        i += zeros;
+
+        let literals = 0;
+        while (i + literals < length && (prev[i + literals] | 0) != (next[i + literals] | 0)) {
+            ++literals;
+        }
+
+        writeVarint(out, zeros);
+        writeVarint(out, literals);
+        for (let j = 0; j < literals; j++) {
+            out.push(((prev[i + j] | 0) ^ (next[i + j] | 0)) & 0xFF);
+        }
+        i += literals;
+    }
+
+    return new Uint8Array(out);
+}
+
+// Reverses encodeDelta: recovers prev from next and the delta
+export function decodeDelta(next: Uint8Array, delta: Uint8Array): Uint8Array {
+    const pos = { p: 0 };
+    const length = readVarint(delta, pos);
+    const prev = new Uint8Array(Math.max(length, next.length));
+    prev.set(next);
+
+    let i = 0;
+    while (pos.p < delta.length) {
+        i += readVarint(delta, pos);
+        const literals = readVarint(delta, pos);
+        for (let j = 0; j < literals; j++, i++) {
+            prev[i] ^= delta[pos.p++];
+        }
+    }
+
+    return prev.subarray(0, length);
+}
+
+export default class Rewind {
+    private capture: () => Uint8Array;
+    private restore: (state: Uint8Array) => void;
+    private options: RewindOptions;
+
+    // Newest snapshot in full; older ones as deltas against the snapshot after them
+    private current: Uint8Array | null;
+    private deltas: (Uint8Array | null)[];
+    private head: number;
+    private count: number;
+    private bytes: number;
+    private frames: number;
+
+    constructor(capture: () => Uint8Array, restore: (state: Uint8Array) => void, options: Partial<RewindOptions> = {}) {
+        this.capture = capture;
+        this.restore = restore;
+        this.options = { ...defaultOptions, ...options };
+
+        const capacity = Math.max(1, Math.ceil(this.options.seconds * FRAMES_PER_SECOND / this.options.interval));
+        this.deltas = new Array(capacity).fill(null);
+        this.current = null;
+        this.head = 0;
+        this.count = 0;
+        this.bytes = 0;
+        this.frames = 0;
+    }
+
+    clear() {
+        this.deltas.fill(null);
+        this.current = null;
+        this.head = 0;
+        this.count = 0;
+        this.bytes = 0;
+        this.frames = 0;
+    }
+
+    // Number of snapshots that can be stepped back to
+    getDepth(): number { return this.count; }
+    getMemoryUsage(): number { return this.bytes + (this.current ? this.current.length : 0); }
+
+    private dropOldest() {
+        const tail = (this.head - this.count + this.deltas.length) % this.deltas.length;
+        this.bytes -= this.deltas[tail]!.length;
+        this.deltas[tail] = null;
+        --this.count;
+    }
+
+    push() {
+        const state = this.capture();
+        if (this.current) {
+            if (this.count == this.deltas.length) {
+                this.dropOldest();
+            }
+
+            const delta = encodeDelta(this.current, state);
+            this.deltas[this.head] = delta;
+            this.head = (this.head + 1) % this.deltas.length;
+            this.bytes += delta.length;
+            ++this.count;
+
+            while (this.count > 0 && this.getMemoryUsage() > this.options.budget) {
+                this.dropOldest();
+            }
+        }
+
+        this.current = state;
+    }
+
+    // Call once per emulated frame
+    frame() {
+        if (++this.frames >= this.options.interval) {
+            this.frames = 0;
+            this.push();
+        }
+    }
+
+    // Restores the previous snapshot; returns false once the buffer is exhausted
+    stepBack(): boolean {
+        if (!this.current) {
+            return false;
+        }
+
+        // Emulation has moved on since the newest snapshot, so return to it first
+        if (this.frames > 0) {
+            this.frames = 0;
+            this.restore(this.current);
+            return true;
+        }
+
+        if (this.count == 0) {
+            return false;
+        }
+
+        this.head = (this.head - 1 + this.deltas.length) % this.deltas.length;
+        const delta = this.deltas[this.head]!;
+        this.deltas[this.head] = null;
+        this.bytes -= delta.length;
+        --this.count;
+
+        this.current = decodeDelta(this.current, delta).slice();
+        this.frames = 0;
+        this.restore(this.current);
+        return true;
+    }
+}
@@ -0,0 +1,222 @@
+import { StateReader, StateWriter } from './state';
+
+export const enum RTCRegister {
+    Seconds = 0x08,
+    Minutes = 0x09,
+    Hours = 0x0A,
+    DayLo = 0x0B,
+    DayHi = 0x0C,
+}
+
+export const enum RTCClock {
+    Cycles = 0,
+    WallClock
+}
+
+const RTC_CYCLES_PER_SECOND = 1048576;
+const RTC_DAY_HALT = 0x40;
+const RTC_DAY_CARRY = 0x80;
+
+// Save footer in the layout used by VBA-M/BGB: current and latched registers
+// as 32-bit little endian words followed by a 64-bit unix timestamp.
+export const RTC_SAVE_SIZE = 48;
+// Older footer with a 32-bit timestamp
+export const RTC_SAVE_SIZE_32 = 44;
+
+export default class RTC {
+    private regs: number[];
+    private latched: number[];
+    private latchPrev: number;
+
+    private clock: RTCClock;
+    private cycles: number;
+    private lastTime: number;
+
+    constructor(clock: RTCClock = RTCClock.Cycles) {
+        this.regs = [0, 0, 0, 0, 0];
+        this.latched = [0, 0, 0, 0, 0];
+        this.latchPrev = 0xFF;
+
+        this.clock = clock;
+        this.cycles = 0;
+        this.lastTime = Date.now();
+    }
+
+    getClock(): RTCClock { return this.clock; }
+
+    setClock(clock: RTCClock) {
+        this.sync();
+        this.clock = clock;
+        this.cycles = 0;
+        this.lastTime = Date.now();
+    }
+
+    private isHalted(): boolean {
+        return (this.regs[4] & RTC_DAY_HALT) != 0;
+    }
+
+    private advance(seconds: number) {
+        if (seconds <= 0 || this.isHalted()) {
+            return;
+        }
+
+        let carry = this.regs[0] + seconds;
+        this.regs[0] = carry % 60;
+        carry = Math.floor(carry / 60);
+        if (!carry) {
+            return;
+        }
+
+        carry += this.regs[1];
+        this.regs[1] = carry % 60;
+        carry = Math.floor(carry / 60);
+
+        carry += this.regs[2];
+        this.regs[2] = carry % 24;
+        carry = Math.floor(carry / 24);
+
+        let days = (((this.regs[4] & 0x01) << 8) | this.regs[3]) + carry;
+        let dayHi = this.regs[4] & ~0x01;
+        if (days > 0x1FF) {
+            dayHi |= RTC_DAY_CARRY;
+            days &= 0x1FF;
+        }
+
+        this.regs[3] = days & 0xFF;
+        this.regs[4] = dayHi | (days >> 8);
+    }
+
+    private sync() {
+        if (this.clock != RTCClock.WallClock) {
+            return;
+        }
+
+        const now = Date.now();
+        if (this.isHalted()) {
+            this.lastTime = now;
+            return;
+        }
+
+        const seconds = Math.floor((now - this.lastTime) / 1000);
+        if (seconds > 0) {
+            this.advance(seconds);
+            this.lastTime += seconds * 1000;
+        }
+    }
+
+    Step(cycles: number): void {
+        if (this.clock != RTCClock.Cycles || this.isHalted()) {
+            return;
+        }
+
+        this.cycles += cycles;
+        if (this.cycles >= RTC_CYCLES_PER_SECOND) {
+            const seconds = Math.floor(this.cycles / RTC_CYCLES_PER_SECOND);
+            this.cycles -= seconds * RTC_CYCLES_PER_SECOND;
+            this.advance(seconds);
+        }
+    }
+
+    latch(v: number) {
+        if (this.latchPrev == 0x00 && v == 0x01) {
+            this.sync();
+            for (let i = 0; i < 5; i++) {
+                this.latched[i] = this.regs[i];
+            }
+        }
+
+        this.latchPrev = v;
+    }
+
+    read(reg: RTCRegister): number {
+        const v = this.latched[reg - RTCRegister.Seconds];
+        switch (reg) {
+            case RTCRegister.Seconds: case RTCRegister.Minutes: return v | 0xC0;
+            case RTCRegister.Hours: return v | 0xE0;
+            case RTCRegister.DayHi: return v | 0x3E;
+            default: return v;
+        }
+    }
+
+    write(reg: RTCRegister, v: number) {
+        this.sync();
+
+        switch (reg) {
+            case RTCRegister.Seconds:
+                this.regs[0] = v & 0x3F;
+                this.cycles = 0;
+                this.lastTime = Date.now();
+                break;
+
+            case RTCRegister.Minutes: this.regs[1] = v & 0x3F; break;
+            case RTCRegister.Hours: this.regs[2] = v & 0x1F; break;
+            case RTCRegister.DayLo: this.regs[3] = v & 0xFF; break;
+
+            case RTCRegister.DayHi:
+                if ((this.regs[4] & RTC_DAY_HALT) && !(v & RTC_DAY_HALT)) {
+                    this.lastTime = Date.now();
+                }
+                this.regs[4] = v & (RTC_DAY_CARRY | RTC_DAY_HALT | 0x01);
+                break;
+        }
+    }
+
+    exportSave(): Uint8Array {
+        this.sync();
+
+        const data = new Uint8Array(RTC_SAVE_SIZE);
+        const view = new DataView(data.buffer);
+        for (let i = 0; i < 5; i++) {
+            view.setUint32(i * 4, this.regs[i], true);
+            view.setUint32(20 + i * 4, this.latched[i], true);
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000);
+        view.setUint32(40, timestamp >>> 0, true);
+        view.setUint32(44, Math.floor(timestamp / 0x100000000), true);
+        return data;
+    }
+
+    // Accepts both footer sizes. Time spent between saving and loading is added to the clock unless it is halted.
+    importSave(data: Uint8Array) {
+        if (data.length < RTC_SAVE_SIZE_32) {
+            throw 'RTC data too short ' + data.length;
+        }
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        for (let i = 0; i < 5; i++) {
+            this.regs[i] = view.getUint32(i * 4, true) & 0xFF;
+            this.latched[i] = view.getUint32(20 + i * 4, true) & 0xFF;
+        }
+
+        let timestamp = view.getUint32(40, true);
+        if (data.length >= RTC_SAVE_SIZE) {
+            timestamp += view.getUint32(44, true) * 0x100000000;
+        }
+
+        const now = Date.now();
+        this.advance(Math.floor(now / 1000) - timestamp);
+        this.cycles = 0;
+        this.lastTime = now;
+    }
+
+    serialize(w: StateWriter) {
+        this.sync();
+        for (let i = 0; i < 5; i++) {
+            w.u8(this.regs[i]);
+            w.u8(this.latched[i]);
+        }
+        w.u8(this.latchPrev);
+        w.f64(this.cycles);
+    }
+
+    deserialize(r: StateReader) {
+        for (let i = 0; i < 5; i++) {
+            this.regs[i] = r.u8();
+            this.latched[i] = r.u8();
+        }
+        this.latchPrev = r.u8();
+        this.cycles = r.f64();
+        this.lastTime = Date.now();
+    }
+}
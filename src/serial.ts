@@ -0,0 +1,177 @@
+import { IOInterrupt } from './gb';
+import MMU, { IORegister, MemoryRegion, MMUBase } from './mmu';
+import { StateReader, StateWriter } from './state';
+
+// M-cycles to shift a byte out at 8192 Hz, CGB's fast clock is 32 times quicker
+const TRANSFER_CYCLES = 1024;
+const TRANSFER_CYCLES_FAST = 32;
+
+// Whatever is plugged into the link port
+export interface LinkTransport {
+    // This side clocked out a byte with its internal clock; returns the byte shifted in from the other end
+    transfer(out: number): number;
+}
+
+// A cable plugged back into the same port, every byte comes straight back
+export class LoopbackTransport implements LinkTransport {
+    transfer(out: number): number {
+        return out;
+    }
+}
+
+// Collects bytes as text and passes on each completed line, the way blargg's test ROMs report results
+export class ConsoleTransport implements LinkTransport {
+    private line: string;
+    private output: (line: string) => void;
+    public text: string;
+
+    constructor(output: (line: string) => void = line => console.log(line)) {
+        this.line = '';
+        this.output = output;
+        this.text = '';
+    }
+
+    transfer(out: number): number {
+        const c = String.fromCharCode(out);
+        this.text += c;
+        if (c == '\n') {
+            this.output(this.line);
+            this.line = '';
+        }
+        else {
+            this.line += c;
+        }
+
+        return 0xFF;
+    }
+}
+
+export default class Serial implements MemoryRegion {
+    public readonly start = MMUBase.REGS + IORegister.SerialData;
+    public readonly length = 2;
+
+    private mmu: MMU;
+    private transport: LinkTransport | null;
+
+    private data: number;
+    private control: number;
+    private cycles: number;
+
+    // Called for every completed transfer, in either clock mode
+    public onTransfer: ((sent: number, received: number) => void) | null;
+
+    constructor(mmu: MMU) {
+        this.mmu = mmu;
+        this.transport = null;
+        this.onTransfer = null;
+
+        this.data = mmu.readReg(IORegister.SerialData);
+        this.control = mmu.readReg(IORegister.SerialControl) & 0x83;
+        this.cycles = 0;
+        mmu.mapRegion(this);
+    }
+
+    // Null leaves the port unconnected, which shifts in 0xFF
+    setTransport(transport: LinkTransport | null) {
+        this.transport = transport;
+    }
+
+    getTransport(): LinkTransport | null { return this.transport; }
+
+    private transferring(): boolean { return (this.control & 0x80) != 0; }
+    private internalClock(): boolean { return (this.control & 0x01) != 0; }
+
+    private complete(received: number) {
+        const sent = this.data;
+        this.data = received & 0xFF;
+        this.control &= 0x7F;
+        this.cycles = 0;
+        this.mmu.writeReg(IORegister.InterruptFlag, this.mmu.readReg(IORegister.InterruptFlag) | IOInterrupt.Serial);
+
+        if (this.onTransfer) {
+            this.onTransfer(sent, this.data);
+        }
+    }
+
+    // The other end clocked a byte in with its internal clock; returns the byte shifted out in exchange.
+    // SB shifts even when no transfer was requested, but only a requested one completes and interrupts.
+    receive(v: number): number {
+        const out = this.data;
+        if (this.transferring() && !this.internalClock()) {
+            this.complete(v);
+        }
+        else {
+            this.data = v & 0xFF;
+        }
+
+        return out;
+    }
+
+    read(addr: number): number {
+        if (addr == MMUBase.REGS + IORegister.SerialData) {
+            return this.data;
+        }
+
+        return this.control | (this.mmu.isCGB() ? 0x7C : 0x7E);
+    }
+
+    write(addr: number, v: number): void {
+        if (addr == MMUBase.REGS + IORegister.SerialData) {
+            this.data = v;
+            return;
+        }
+
+        this.control = v & (this.mmu.isCGB() ? 0x83 : 0x81);
+        this.cycles = 0;
+    }
+
+    // Takes CPU cycles, so the clock doubles along with the CPU in double-speed mode
+    Step(cycles: number): void {
+        if (!this.transferring() || !this.internalClock()) {
+            return;
+        }
+
+        this.cycles += cycles;
+        if (this.cycles >= ((this.control & 0x02) ? TRANSFER_CYCLES_FAST : TRANSFER_CYCLES)) {
+            this.complete(this.transport ? this.transport.transfer(this.data) : 0xFF);
+        }
+    }
+
+    serialize(w: StateWriter) {
+        w.u8(this.data);
+        w.u8(this.control);
+        w.u16(this.cycles);
+    }
+
+    deserialize(r: StateReader) {
+        this.data = r.u8();
+        this.control = r.u8();
+        this.cycles = r.u16();
+    }
+}
+
+// Either end of a LinkCable, such as an Emulator, which swaps its Serial on reset but keeps the transport
+export interface LinkPort {
+    getSerial(): Serial;
+    setLinkTransport(transport: LinkTransport | null): void;
+}
+
+// Connects the link ports of two emulators running in the same process.
+// Whichever side uses its internal clock drives the exchange.
+export class LinkCable {
+    private a: LinkPort;
+    private b: LinkPort;
+
+    constructor(a: LinkPort, b: LinkPort) {
+        this.a = a;
+        this.b = b;
+        // The other side's Serial is looked up for every byte so it survives a reset there
+        a.setLinkTransport({ transfer: (out: number) => b.getSerial().receive(out) });
+        b.setLinkTransport({ transfer: (out: number) => a.getSerial().receive(out) });
+    }
+
+    disconnect() {
+        this.a.setLinkTransport(null);
+        this.b.setLinkTransport(null);
+    }
+}
@@ -0,0 +1,151 @@
+import APU from './apu';
+import GB, { GBTimer } from './gb';
+import MMU from './mmu';
+import PPU from './ppu';
+import Serial from './serial';
+
+const STATE_MAGIC = 0x53544247; // 'GBTS'
+export const STATE_VERSION = 7;
+
+export class StateWriter {
+    private buf: Uint8Array;
+    private view: DataView;
+    private pos: number;
+
+    constructor() {
+        this.buf = new Uint8Array(0x20000);
+        this.view = new DataView(this.buf.buffer);
+        this.pos = 0;
+    }
+
+    private reserve(n: number) {
+        if (this.pos + n <= this.buf.length) {
+            return;
+        }
+
+        const buf = new Uint8Array(Math.max(this.buf.length * 2, this.pos + n));
+        buf.set(this.buf);
+        this.buf = buf;
+        this.view = new DataView(buf.buffer);
+    }
+
+    u8(v: number) { this.reserve(1); this.view.setUint8(this.pos, v); this.pos += 1; }
+    u16(v: number) { this.reserve(2); this.view.setUint16(this.pos, v, true); this.pos += 2; }
+    u32(v: number) { this.reserve(4); this.view.setUint32(this.pos, v >>> 0, true); this.pos += 4; }
+    f64(v: number) { this.reserve(8); this.view.setFloat64(this.pos, v, true); this.pos += 8; }
+    bool(v: boolean) { this.u8(v ? 1 : 0); }
+
+    bytes(data: Uint8Array) {
+        this.u32(data.length);
+        this.reserve(data.length);
+        this.buf.set(data, this.pos);
+        this.pos += data.length;
+    }
+
+    finish(): Uint8Array {
+        return this.buf.slice(0, this.pos);
+    }
+}
+
+export class StateReader {
+    private data: Uint8Array;
+    private view: DataView;
+    private pos: number;
+
+    constructor(data: Uint8Array) {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        this.pos = 0;
+    }
+
+    private check(n: number) {
+        if (this.pos + n > this.data.length) {
+            throw 'Unexpected end of state data at ' + this.pos;
+        }
+    }
+
+    u8(): number { this.check(1); const v = this.view.getUint8(this.pos); this.pos += 1; return v; }
+    u16(): number { this.check(2); const v = this.view.getUint16(this.pos, true); this.pos += 2; return v; }
+    u32(): number { this.check(4); const v = this.view.getUint32(this.pos, true); this.pos += 4; return v; }
+    f64(): number { this.check(8); const v = this.view.getFloat64(this.pos, true); this.pos += 8; return v; }
+    bool(): boolean { return this.u8() != 0; }
+
+    // Reads a length-prefixed block into an existing buffer, which must be the same size
+    bytes(target: Uint8Array) {
+        const length = this.u32();
+        if (length != target.length) {
+            throw 'State block size mismatch ' + length + ' != ' + target.length;
+        }
+
+        this.check(length);
+        target.set(this.data.subarray(this.pos, this.pos + length));
+        this.pos += length;
+    }
+}
+
+export function saveState(mmu: MMU, gb: GB, ppu: PPU, gbTimer: GBTimer, serial: Serial, apu: APU | null = null): Uint8Array {
+    const header = mmu.getHeader();
+    const w = new StateWriter();
+    w.u32(STATE_MAGIC);
+    w.u16(STATE_VERSION);
+    w.u16(header.globalChecksum);
+    w.u8(header.headerChecksum);
+
+    mmu.serialize(w);
+    gb.serialize(w);
+    ppu.serialize(w);
+    gbTimer.serialize(w);
+    serial.serialize(w);
+
+    w.bool(apu != null);
+    if (apu) {
+        apu.serialize(w);
+    }
+    return w.finish();
+}
+
+function readHeader(r: StateReader, mmu: MMU) {
+    const header = mmu.getHeader();
+    if (r.u32() != STATE_MAGIC) {
+        throw 'Not a save state';
+    }
+
+    const version = r.u16();
+    if (version != STATE_VERSION) {
+        throw 'Unsupported save state version ' + version;
+    }
+
+    if (r.u16() != header.globalChecksum || r.u8() != header.headerChecksum) {
+        throw 'Save state is for a different ROM';
+    }
+}
+
+function readComponents(r: StateReader, mmu: MMU, gb: GB, ppu: PPU, gbTimer: GBTimer, serial: Serial, apu: APU | null) {
+    mmu.deserialize(r);
+    gb.deserialize(r);
+    ppu.deserialize(r);
+    gbTimer.deserialize(r);
+    serial.deserialize(r);
+
+    // States from a host without audio leave the APU as it is
+    if (r.bool() && apu) {
+        apu.deserialize(r);
+    }
+}
+
+// Validates the header before touching any component, and puts back the state from before the load
+// if the rest turns out to be corrupt, so a rejected state leaves the emulator as it was
+export function loadState(data: Uint8Array, mmu: MMU, gb: GB, ppu: PPU, gbTimer: GBTimer, serial: Serial, apu: APU | null = null) {
+    const r = new StateReader(data);
+    readHeader(r, mmu);
+
+    const previous = new StateReader(saveState(mmu, gb, ppu, gbTimer, serial, apu));
+    try {
+        readComponents(r, mmu, gb, ppu, gbTimer, serial, apu);
+    }
+    catch (e) {
+        readHeader(previous, mmu);
+        readComponents(previous, mmu, gb, ppu, gbTimer, serial, apu);
+        throw e;
+    }
+}
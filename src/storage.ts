@@ -0,0 +1,72 @@
+import { CartridgeHeader } from './cartridge';
+
+const DB_NAME = 'gb-ts';
+const DB_VERSION = 1;
+const STORE_SAVES = 'saves';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => req.result.createObjectStore(STORE_SAVES);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    return dbPromise;
+}
+
+function request<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return openDB().then(db => new Promise((resolve, reject) => {
+        const req = fn(db.transaction(store, mode).objectStore(store));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    }));
+}
+
+// Title plus global checksum, so revisions of the same game keep separate saves
+export function romSaveKey(header: CartridgeHeader): string {
+    return header.title + '-' + header.globalChecksum.toString(16).padStart(4, '0');
+}
+
+export async function loadBatterySave(key: string): Promise<Uint8Array | null> {
+    const data = await request<ArrayBuffer | undefined>(STORE_SAVES, 'readonly', s => s.get(key));
+    return data ? new Uint8Array(data) : null;
+}
+
+export async function storeBatterySave(key: string, data: Uint8Array): Promise<void> {
+    await request(STORE_SAVES, 'readwrite', s => s.put(data.slice().buffer, key));
+}
+
+function toBase64(data: Uint8Array): string {
+    let s = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+        s += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+
+    return btoa(s);
+}
+
+function fromBase64(s: string): Uint8Array {
+    const bin = atob(s);
+    const data = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) {
+        data[i] = bin.charCodeAt(i);
+    }
+
+    return data;
+}
+
+const stateSlotKey = (key: string, slot: number) => 'gb-ts-state-' + key + '-' + slot;
+
+export function writeStateSlot(key: string, slot: number, data: Uint8Array) {
+    localStorage.setItem(stateSlotKey(key, slot), toBase64(data));
+}
+
+export function readStateSlot(key: string, slot: number): Uint8Array | null {
+    const s = localStorage.getItem(stateSlotKey(key, slot));
+    return s ? fromBase64(s) : null;
+}
@@ -0,0 +1,140 @@
+export const FRAME_CYCLES = 17556;
+export const CYCLES_PER_SECOND = 1048576;
+export const FRAME_RATE = CYCLES_PER_SECOND / FRAME_CYCLES;
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 16;
+
+// Host time spent emulating per host frame when running unthrottled
+export const UNTHROTTLED_BUDGET = 12;
+
+export const enum SyncMode {
+    // Paced against wall-clock time, audio is resampled to follow
+    Video,
+    // Paced by keeping the audio buffer topped up, falls back to video without audio
+    Audio,
+}
+
+export interface PacerOptions {
+    mode: SyncMode;
+    // Most frames emulated without being shown when the host falls behind
+    maxFrameSkip: number;
+    // Audio buffer fill level to aim for, in seconds
+    audioLatency: number;
+    // Largest resampling adjustment used to steer the audio buffer back to the target
+    maxRateDelta: number;
+}
+
+const defaultOptions: PacerOptions = {
+    mode: SyncMode.Video,
+    maxFrameSkip: 4,
+    audioLatency: 0.06,
+    maxRateDelta: 0.005,
+};
+
+export default class FramePacer {
+    private options: PacerOptions;
+    private lastTime: number | null;
+    private pending: number;
+
+    constructor(options: Partial<PacerOptions> = {}) {
+        this.options = { ...defaultOptions, ...options };
+        this.lastTime = null;
+        this.pending = 0;
+    }
+
+    getMode(): SyncMode { return this.options.mode; }
+
+    setMode(mode: SyncMode) {
+        this.options.mode = mode;
+        this.reset();
+    }
+
+    getAudioLatency(): number { return this.options.audioLatency; }
+
+    // Forgets accumulated time, e.g. after the tab was hidden or emulation paused
+    reset() {
+        this.lastTime = null;
+        this.pending = 0;
+    }
+
+    // Number of frames to emulate for a host frame at time now (ms).
+    // audioBuffered is the audio buffer fill level in seconds, or null without audio output.
+    // Audio can only set the pace at normal speed.
+    framesDue(now: number, audioBuffered: number | null, speed: number = 1): number {
+        const maxFrames = Math.ceil((this.options.maxFrameSkip + 1) * Math.max(1, speed));
+        const elapsed = this.lastTime == null ? 1000 / FRAME_RATE : now - this.lastTime;
+        this.lastTime = now;
+
+        if (this.options.mode == SyncMode.Audio && audioBuffered != null && speed == 1) {
+            const deficit = this.options.audioLatency - audioBuffered;
+            this.pending = 0;
+            return Math.max(0, Math.min(maxFrames, Math.ceil(deficit * FRAME_RATE)));
+        }
+
+        this.pending += elapsed * FRAME_RATE * speed / 1000;
+        let frames = Math.floor(this.pending);
+        this.pending -= frames;
+
+        // Too far behind to catch up, drop the backlog instead of stalling the host
+        if (frames > maxFrames) {
+            frames = maxFrames;
+            this.pending = 0;
+        }
+
+        return frames;
+    }
+
+    // Resampling ratio that produces slightly more audio when the buffer runs low and less when it fills up
+    rateAdjust(audioBuffered: number): number {
+        // Audio is already the master clock when syncing to it
+        if (this.options.mode == SyncMode.Audio) {
+            return 1;
+        }
+
+        const target = this.options.audioLatency;
+        const delta = this.options.maxRateDelta;
+        const ratio = 1 + delta * (target - audioBuffered) / target;
+        return Math.max(1 - delta, Math.min(1 + delta, ratio));
+    }
+}
+
+export class SpeedControl {
+    private speed: number;
+    private turboSpeed: number;
+    private turboHeld: boolean;
+    private turboToggled: boolean;
+    private unthrottled: boolean;
+
+    constructor(turboSpeed: number = 4) {
+        this.speed = 1;
+        this.turboSpeed = SpeedControl.clamp(turboSpeed);
+        this.turboHeld = false;
+        this.turboToggled = false;
+        this.unthrottled = false;
+    }
+
+    private static clamp(speed: number): number {
+        return Math.max(MIN_SPEED, Math.min(MAX_SPEED, speed));
+    }
+
+    // Multiplier of real time to run at, ignored while unthrottled
+    getSpeed(): number {
+        return this.isTurbo() ? this.turboSpeed : this.speed;
+    }
+
+    // Normal speed, below 1 for slow motion
+    setSpeed(speed: number) { this.speed = SpeedControl.clamp(speed); }
+    getBaseSpeed(): number { return this.speed; }
+
+    setTurboSpeed(speed: number) { this.turboSpeed = SpeedControl.clamp(speed); }
+    getTurboSpeed(): number { return this.turboSpeed; }
+
+    isTurbo(): boolean { return this.turboHeld || this.turboToggled; }
+    holdTurbo(held: boolean) { this.turboHeld = held; }
+    toggleTurbo() { this.turboToggled = !this.turboToggled; }
+
+    // Runs as many frames as the host allows, for benchmarking
+    isUnthrottled(): boolean { return this.unthrottled; }
+    setUnthrottled(unthrottled: boolean) { this.unthrottled = unthrottled; }
+}
@@ -0,0 +1,110 @@
+import { hex } from './cartridge';
+import Disassembler, { SymbolTable } from './disasm';
+import type Emulator from './emulator';
+import { IORegister, MMUBase } from './mmu';
+
+export const enum TraceFormat {
+    // gameboy-doctor: A:00 F:11 B:22 C:33 D:44 E:55 H:66 L:77 SP:8888 PC:9999 PCMEM:AA,BB,CC,DD
+    Doctor,
+    // BGB/SameBoy style: A:01 F:Z-HC BC:0013 DE:00D8 HL:014D SP:FFFE PC:0100 (cy: 0) LY:00 |[00]0x0100: 00        nop
+    BGB,
+}
+
+export interface TraceOptions {
+    format: TraceFormat;
+    // Keeps the last ringSize lines for dump() instead of passing each to onLine, 0 streams them
+    ringSize: number;
+    // Inclusive range of PCs traced
+    start: number;
+    end: number;
+    // Only traces ROM code running from this bank when not null
+    bank: number | null;
+    // Labels for the BGB format's disassembly
+    symbols: SymbolTable | null;
+}
+
+const defaultOptions: TraceOptions = {
+    format: TraceFormat.Doctor,
+    ringSize: 0,
+    start: 0x0000,
+    end: 0xFFFF,
+    bank: null,
+    symbols: null,
+};
+
+// One line per instruction, before it runs. Installed with Emulator.setTracer.
+export default class Tracer {
+    private emulator: Emulator;
+    private options: TraceOptions;
+    private ring: string[];
+    private ringNext: number;
+
+    // Each line as it is traced when not keeping a ring
+    public onLine: ((line: string) => void) | null;
+
+    constructor(emulator: Emulator, options: Partial<TraceOptions> = {}) {
+        this.emulator = emulator;
+        this.options = { ...defaultOptions, ...options };
+        this.ring = [];
+        this.ringNext = 0;
+        this.onLine = null;
+    }
+
+    trace(pc: number) {
+        if (pc < this.options.start || pc > this.options.end) {
+            return;
+        }
+
+        const mmu = this.emulator.getMMU();
+        const bank = pc < MMUBase.VRAM ? mmu.getROMBank(pc) : 0;
+        if (this.options.bank != null && (pc >= MMUBase.VRAM || bank != this.options.bank)) {
+            return;
+        }
+
+        const line = this.options.format == TraceFormat.Doctor ? this.doctorLine(pc) : this.bgbLine(pc, bank);
+        if (this.options.ringSize == 0) {
+            if (this.onLine) {
+                this.onLine(line);
+            }
+            return;
+        }
+
+        if (this.ring.length < this.options.ringSize) {
+            this.ring.push(line);
+        }
+        else {
+            this.ring[this.ringNext] = line;
+        }
+        this.ringNext = (this.ringNext + 1) % this.options.ringSize;
+    }
+
+    // The ring's lines, oldest first, emptying it
+    dump(): string[] {
+        const lines = this.ring.slice(this.ringNext).concat(this.ring.slice(0, this.ringNext));
+        this.ring = [];
+        this.ringNext = 0;
+        return lines;
+    }
+
+    private doctorLine(pc: number): string {
+        const gb = this.emulator.getCPU();
+        const mmu = this.emulator.getMMU();
+        const [af, bc, de, hl] = [gb.getAF(), gb.getBC(), gb.getDE(), gb.getHL()];
+        const mem = [0, 1, 2, 3].map(i => hex(mmu.read((pc + i) & 0xFFFF), 2));
+        return 'A:' + hex(af.Lo(), 2) + ' F:' + hex(af.Hi(), 2) + ' B:' + hex(bc.Lo(), 2) + ' C:' + hex(bc.Hi(), 2) +
+            ' D:' + hex(de.Lo(), 2) + ' E:' + hex(de.Hi(), 2) + ' H:' + hex(hl.Lo(), 2) + ' L:' + hex(hl.Hi(), 2) +
+            ' SP:' + hex(gb.getSP(), 4) + ' PC:' + hex(pc, 4) + ' PCMEM:' + mem.join(',');
+    }
+
+    private bgbLine(pc: number, bank: number): string {
+        const gb = this.emulator.getCPU();
+        const mmu = this.emulator.getMMU();
+        const f = gb.getAF().Hi();
+        const flags = ['Z', 'N', 'H', 'C'].map((c, i) => f & (0x80 >> i) ? c : '-').join('');
+        const instr = new Disassembler(mmu, this.options.symbols).decode(pc);
+        return 'A:' + hex(gb.getAF().Lo(), 2) + ' F:' + flags + ' BC:' + hex(gb.getBC().Word(), 4) + ' DE:' + hex(gb.getDE().Word(), 4) +
+            ' HL:' + hex(gb.getHL().Word(), 4) + ' SP:' + hex(gb.getSP(), 4) + ' PC:' + hex(pc, 4) +
+            ' (cy: ' + gb.getCycleCount() * 4 + ') LY:' + hex(mmu.readReg(IORegister.LCDY), 2) +
+            ' |[' + hex(bank, 2) + ']0x' + hex(pc, 4) + ': ' + instr.bytes.map(b => hex(b, 2)).join(' ').padEnd(8) + '  ' + instr.text;
+    }
+}
@@ -0,0 +1,179 @@
+import type Emulator from './emulator';
+import { IORegister, MMUBase } from './mmu';
+import PPU from './ppu';
+
+export const TILE_COUNT = 384;
+// Tiles are laid out 16 across and 24 down per VRAM bank
+export const TILES_WIDTH = 16 * 8;
+export const TILES_HEIGHT = 24 * 8;
+export const MAP_SIZE = 256;
+
+export interface OAMEntry {
+    index: number;
+    // Screen position, OAM stores them offset by 8 and 16
+    x: number;
+    y: number;
+    tile: number;
+    attr: number;
+    behindBG: boolean;
+    flipY: boolean;
+    flipX: boolean;
+    // OBP0/OBP1 on DMG, one of eight palettes on CGB
+    palette: number;
+    bank: number;
+    // Inside the range that can show on screen
+    visible: boolean;
+}
+
+export interface Viewport {
+    scx: number;
+    scy: number;
+    // WX without its offset of 7
+    wx: number;
+    wy: number;
+    // Map addresses from LCDC
+    bgMap: number;
+    windowMap: number;
+    windowEnabled: boolean;
+    spriteHeight: number;
+}
+
+// Renders VRAM as RGBA for canvases: the tile data, both tile maps and the sprites in OAM
+export default class VRAMViewer {
+    private emulator: Emulator;
+
+    constructor(emulator: Emulator) {
+        this.emulator = emulator;
+    }
+
+    private static setRGB555(out: Uint8ClampedArray, i: number, color: number) {
+        for (let c = 0; c < 3; c++) {
+            const v = (color >> (c * 5)) & 0x1F;
+            out[i + c] = (v << 3) | (v >> 2);
+        }
+        out[i + 3] = 0xFF;
+    }
+
+    private static setShade(out: Uint8ClampedArray, i: number, shade: number) {
+        out[i] = out[i + 1] = out[i + 2] = shade;
+        out[i + 3] = 0xFF;
+    }
+
+    // Colour number (0-3) of a pixel in the 8x8 tile at a VRAM offset
+    private pixel(bank: number, offset: number, x: number, y: number): number {
+        const mmu = this.emulator.getMMU();
+        const line = [mmu.readVRAM(bank, offset + (y << 1)), mmu.readVRAM(bank, offset + (y << 1) + 1)];
+        return this.emulator.getPPU().ppuLinePixel(line, x);
+    }
+
+    // All 384 tiles of a VRAM bank in raw colour numbers, white to black, TILES_WIDTH by TILES_HEIGHT
+    renderTiles(bank: number = 0): Uint8ClampedArray {
+        const out = new Uint8ClampedArray(TILES_WIDTH * TILES_HEIGHT * 4);
+        for (let tile = 0; tile < TILE_COUNT; tile++) {
+            const tx = (tile & 15) << 3;
+            const ty = (tile >> 4) << 3;
+            for (let y = 0; y < 8; y++) {
+                for (let x = 0; x < 8; x++) {
+                    VRAMViewer.setShade(out, ((ty + y) * TILES_WIDTH + tx + x) * 4, PPU.SHADES[this.pixel(bank, tile << 4, x, y)]);
+                }
+            }
+        }
+        return out;
+    }
+
+    // The 32x32 tile map at 0x9800 or 0x9C00 as the background would show it, MAP_SIZE square
+    renderMap(mapAddress: number): Uint8ClampedArray {
+        const mmu = this.emulator.getMMU();
+        const ppu = this.emulator.getPPU();
+        const cgb = ppu.isCGB();
+        const loTiles = (mmu.readReg(IORegister.LCDControl) & 0x10) != 0;
+        const bgp = mmu.readReg(IORegister.BackgroundPalette);
+
+        const out = new Uint8ClampedArray(MAP_SIZE * MAP_SIZE * 4);
+        for (let i = 0; i < 32 * 32; i++) {
+            const mapAddr = mapAddress - MMUBase.VRAM + i;
+            const offset = ppu.ppuTileLineAddress(mmu.readVRAM(0, mapAddr), 0, loTiles);
+            // Palette (0-2), tile bank (3), X flip (5) and Y flip (6) on CGB
+            const attr = cgb ? mmu.readVRAM(1, mapAddr) : 0;
+            for (let y = 0; y < 8; y++) {
+                for (let x = 0; x < 8; x++) {
+                    const px = this.pixel((attr >> 3) & 1, offset, attr & 0x20 ? 7 - x : x, attr & 0x40 ? 7 - y : y);
+                    const dst = ((((i >> 5) << 3) + y) * MAP_SIZE + ((i & 31) << 3) + x) * 4;
+                    if (cgb) {
+                        VRAMViewer.setRGB555(out, dst, ppu.getBGColor(attr & 7, px));
+                    }
+                    else {
+                        VRAMViewer.setShade(out, dst, PPU.SHADES[(bgp >> (px * 2)) & 3]);
+                    }
+                }
+            }
+        }
+        return out;
+    }
+
+    getViewport(): Viewport {
+        const mmu = this.emulator.getMMU();
+        const lcdc = mmu.readReg(IORegister.LCDControl);
+        const wx = mmu.readReg(IORegister.WindowX) - 7;
+        const wy = mmu.readReg(IORegister.WindowY);
+        return {
+            scx: mmu.readReg(IORegister.ScrollX),
+            scy: mmu.readReg(IORegister.ScrollY),
+            wx, wy,
+            bgMap: lcdc & 0x08 ? 0x9C00 : 0x9800,
+            windowMap: lcdc & 0x40 ? 0x9C00 : 0x9800,
+            windowEnabled: (lcdc & 0x20) != 0 && wx < PPU.BUF_WIDTH && wy < PPU.BUF_HEIGHT,
+            spriteHeight: lcdc & 0x04 ? 16 : 8,
+        };
+    }
+
+    getOAM(): OAMEntry[] {
+        const mmu = this.emulator.getMMU();
+        const cgb = this.emulator.isCGB();
+        const entries: OAMEntry[] = [];
+        for (let i = 0; i < 40; i++) {
+            const y = mmu.read(MMUBase.OAMS + i * 4) - 16;
+            const x = mmu.read(MMUBase.OAMS + i * 4 + 1) - 8;
+            const attr = mmu.read(MMUBase.OAMS + i * 4 + 3);
+            entries.push({
+                index: i, x, y,
+                tile: mmu.read(MMUBase.OAMS + i * 4 + 2),
+                attr,
+                behindBG: (attr & 0x80) != 0,
+                flipY: (attr & 0x40) != 0,
+                flipX: (attr & 0x20) != 0,
+                palette: cgb ? attr & 7 : (attr >> 4) & 1,
+                bank: cgb ? (attr >> 3) & 1 : 0,
+                visible: x > -8 && x < PPU.BUF_WIDTH && y > -16 && y < PPU.BUF_HEIGHT,
+            });
+        }
+        return entries;
+    }
+
+    // 8 pixels wide and 8 or 16 high with the sprite's flips and palette, colour 0 transparent
+    renderSprite(entry: OAMEntry, height: number): Uint8ClampedArray {
+        const mmu = this.emulator.getMMU();
+        const ppu = this.emulator.getPPU();
+        const obp = mmu.readReg(entry.palette ? IORegister.ObjectPalette1 : IORegister.ObjectPalette0);
+        const tile = height == 16 ? entry.tile & 0xFE : entry.tile;
+
+        const out = new Uint8ClampedArray(8 * height * 4);
+        for (let y = 0; y < height; y++) {
+            const tileY = entry.flipY ? height - 1 - y : y;
+            for (let x = 0; x < 8; x++) {
+                const px = this.pixel(entry.bank, (tile << 4) + ((tileY >> 3) << 4), entry.flipX ? 7 - x : x, tileY & 7);
+                if (px == 0) {
+                    continue;
+                }
+
+                if (ppu.isCGB()) {
+                    VRAMViewer.setRGB555(out, (y * 8 + x) * 4, ppu.getOBJColor(entry.palette, px));
+                }
+                else {
+                    VRAMViewer.setShade(out, (y * 8 + x) * 4, PPU.SHADES[(obp >> (px * 2)) & 3]);
+                }
+            }
+        }
+        return out;
+    }
+}
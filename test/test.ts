@@ -1,44 +1,57 @@
 import assert from 'assert';
-import GB, { GBTimer } from './../src/gb';
+import APU from '../src/apu';
+import GB, { Button, GBTimer, IOInterrupt } from './../src/gb';
+import MemoryViewer from '../src/memview';
 import MMU, { IORegister } from './../src/mmu';
 import PPU from '../src/ppu';
+import Printer, { decompressRLE, PrintedImage, PrinterStatus } from '../src/printer';
+import { CGBSupport, parseCartridgeHeader } from '../src/cartridge';
+import Debugger, { BreakInfo, BreakReason, compileExpression, WatchType } from '../src/debugger';
+import Disassembler, { disassemble, formatInstruction, SymbolTable } from '../src/disasm';
+import Emulator from '../src/emulator';
+import { parseArgs, parseInputScript, parseNumber, runHeadless } from '../src/cli';
+import Rewind, { decodeDelta, encodeDelta } from '../src/rewind';
+import RTC, { RTC_SAVE_SIZE, RTC_SAVE_SIZE_32 } from '../src/rtc';
+import Serial, { ConsoleTransport, LinkCable, LoopbackTransport } from '../src/serial';
+import { StateReader, StateWriter } from '../src/state';
+import Tracer, { TraceFormat } from '../src/trace';
+import FramePacer, { FRAME_CYCLES, FRAME_RATE, MAX_SPEED, MIN_SPEED, SpeedControl, SyncMode } from '../src/timing';
+import VRAMViewer, { MAP_SIZE, TILES_WIDTH } from '../src/vram';
 import fs from 'fs';
+import zlib from 'zlib';
 
 const tests: any = {};
 
 const loadRom = (path: string): Buffer => fs.readFileSync(path);
 
+const makeRom = (type: number, romBanks: number, ramSize: number): Uint8Array => {
+    const rom = new Uint8Array(romBanks * 0x4000);
+    // Low and high byte of the bank number
+    for (let i = 0; i < romBanks; i++) {
+        rom[i * 0x4000 + 0x1000] = i;
+        rom[i * 0x4000 + 0x1001] = i >> 8;
+    }
+
+    rom[0x147] = type;
+    rom[0x149] = ramSize;
+    return rom;
+};
+
 const testRom = (path: string) => {
     console.log('Testing', path);
-    const mmu = new MMU(loadRom(path));
-    const ppu = new PPU(mmu);
-    const gb = new GB(mmu);
-    const gbTimer = new GBTimer(mmu);
-
+    const emulator = new Emulator(loadRom(path));
     let serialOut = '';
+    emulator.on('serial', (sent: number) => serialOut += String.fromCharCode(sent));
 
-    let step = 0;
-    while (true) {
-        ++step;
-
-        if (mmu.readReg(IORegister.SerialControl) == 0x81) {
-            const c = mmu.readReg(IORegister.SerialData);
-            serialOut += String.fromCharCode(c);
-            mmu.writeReg(IORegister.SerialControl, 0);
-
-            if (serialOut.endsWith('Passed')) {
-                return true;
-            }
-
-            if (serialOut.includes('Failed')) {
-                assert.fail('Failed ' + path);
-            }
-        }
+    const finished = () => serialOut.endsWith('Passed') || serialOut.includes('Failed');
+    while (!finished()) {
+        emulator.runFrame(true, finished);
+    }
 
-        const clks = gb.Step();
-        ppu.Step(clks, true);
-        gbTimer.Step(clks);
+    if (serialOut.includes('Failed')) {
+        assert.fail('Failed ' + path);
     }
+    return true;
 }
 
 testRom('./build/roms/cpu_instrs/individual/01-special.gb');
@@ -56,10 +69,1348 @@ testRom('./build/roms/cpu_instrs/individual/11-op a,(hl).gb');
 // testRom('./build/roms/cpu_instrs/cpu_instrs.gb');
 testRom('./build/roms/instr_timing/instr_timing.gb');
 
+// Mooneye's ROMs finish on LD B,B and pass with B/C/D/E/H/L holding the Fibonacci numbers 3 to 34
+const testMooneyeRom = (path: string) => {
+    console.log('Testing', path);
+    const emulator = new Emulator(loadRom(path));
+
+    for (let step = 0; step < 10000000; step++) {
+        const r = emulator.getRegisters();
+        if (emulator.read(r.pc) == 0x40) {
+            const regs = [r.bc >> 8, r.bc & 0xFF, r.de >> 8, r.de & 0xFF, r.hl >> 8, r.hl & 0xFF];
+            assert.deepStrictEqual(regs, [3, 5, 8, 13, 21, 34], 'Failed ' + path);
+            return;
+        }
+
+        emulator.step();
+    }
+
+    assert.fail('Timed out ' + path);
+};
+
+// Not bundled, copy mooneye-test-suite's acceptance ROMs to build/roms/mooneye/acceptance to run them
+for (const name of ['div_write', 'rapid_toggle', 'tim00', 'tim00_div_trigger', 'tim01', 'tim01_div_trigger',
+    'tim10', 'tim10_div_trigger', 'tim11', 'tim11_div_trigger', 'tima_reload', 'tima_write_reloading', 'tma_write_reloading']) {
+    const path = './build/roms/mooneye/acceptance/timer/' + name + '.gb';
+    if (fs.existsSync(path)) {
+        testMooneyeRom(path);
+    }
+    else {
+        console.log('Skipped', path, '(ROM missing)');
+    }
+}
+
+// Not bundled, copy blargg's mem_timing ROMs to build/roms/mem_timing/individual to run them
+for (const name of ['01-read_timing', '02-write_timing', '03-modify_timing']) {
+    const path = './build/roms/mem_timing/individual/' + name + '.gb';
+    if (fs.existsSync(path)) {
+        testRom(path);
+    }
+    else {
+        console.log('Skipped', path, '(ROM missing)');
+    }
+}
+
 // testRom('./build/roms/bgbtest.gb');
 
 // tests['foo'] = () => { assert.strictEqual(2, 3); }
 
+tests['mbc1 ram banking'] = () => {
+    const mmu = new MMU(makeRom(0x03, 128, 0x03));
+    assert.strictEqual(mmu.read(0xA000), 0xFF);
+
+    mmu.write(0xA000, 0x12);
+    mmu.write(0x0000, 0x0A);
+    assert.strictEqual(mmu.read(0xA000), 0x00);
+
+    mmu.write(0xA000, 0x12);
+    mmu.write(0x6000, 0x01);
+    mmu.write(0x4000, 0x02);
+    assert.strictEqual(mmu.read(0xA000), 0x00);
+    mmu.write(0xA000, 0x34);
+
+    mmu.write(0x6000, 0x00);
+    assert.strictEqual(mmu.read(0xA000), 0x12);
+
+    mmu.write(0x2000, 0x03);
+    assert.strictEqual(mmu.read(0x5000), 0x43);
+
+    mmu.write(0x0000, 0x00);
+    assert.strictEqual(mmu.read(0xA000), 0xFF);
+};
+
+tests['mbc3 ram banking'] = () => {
+    const mmu = new MMU(makeRom(0x13, 128, 0x03));
+    mmu.write(0x0000, 0x0A);
+    for (let i = 0; i < 4; i++) {
+        mmu.write(0x4000, i);
+        mmu.write(0xB000, i + 1);
+    }
+
+    for (let i = 0; i < 4; i++) {
+        mmu.write(0x4000, i);
+        assert.strictEqual(mmu.read(0xB000), i + 1);
+    }
+
+    mmu.write(0x2000, 0x00);
+    assert.strictEqual(mmu.read(0x5000), 0x01);
+    mmu.write(0x2000, 0x45);
+    assert.strictEqual(mmu.read(0x5000), 0x45);
+};
+
+tests['battery save'] = () => {
+    const mmu = new MMU(makeRom(0x03, 4, 0x02));
+    assert.ok(mmu.hasBattery());
+    assert.ok(!mmu.isSaveDirty());
+
+    mmu.write(0x0000, 0x0A);
+    mmu.write(0xA010, 0x5A);
+    assert.ok(mmu.isSaveDirty());
+    mmu.clearSaveDirty();
+    // A save that couldn't be stored is marked for the next autosave
+    mmu.markSaveDirty();
+    assert.ok(mmu.isSaveDirty());
+    mmu.clearSaveDirty();
+
+    const save = mmu.exportSave();
+    assert.strictEqual(save.length, 0x2000);
+    assert.strictEqual(save[0x10], 0x5A);
+
+    const restored = new MMU(makeRom(0x03, 4, 0x02));
+    restored.importSave(save);
+    restored.write(0x0000, 0x0A);
+    assert.strictEqual(restored.read(0xA010), 0x5A);
+    assert.ok(!restored.isSaveDirty());
+
+    assert.ok(!new MMU(makeRom(0x02, 4, 0x02)).hasBattery());
+
+    // ROM+RAM+BATTERY has no mapper, its RAM is always there
+    const plain = new MMU(makeRom(0x09, 2, 0x02));
+    assert.ok(plain.hasBattery());
+    plain.write(0xA010, 0x42);
+    assert.strictEqual(plain.read(0xA010), 0x42);
+    assert.ok(plain.isSaveDirty());
+    assert.strictEqual(plain.exportSave().length, 0x2000);
+    assert.strictEqual(plain.exportSave()[0x10], 0x42);
+
+    // A save the host failed to store is handed out again
+    const emulator = new Emulator(makeRom(0x03, 4, 0x02));
+    emulator.getMMU().write(0x0000, 0x0A);
+    emulator.getMMU().write(0xA010, 0x77);
+    const taken = emulator.takeDirtySave();
+    assert.ok(taken);
+    assert.strictEqual(emulator.takeDirtySave(), null);
+    emulator.markSaveDirty();
+    assert.deepStrictEqual(emulator.takeDirtySave(), taken);
+};
+
+tests['mbc3 rtc'] = () => {
+    const mmu = new MMU(makeRom(0x10, 4, 0x03));
+    const readRTC = (reg: number) => {
+        mmu.write(0x4000, reg);
+        return mmu.read(0xA000);
+    };
+    const latch = () => {
+        mmu.write(0x6000, 0x00);
+        mmu.write(0x6000, 0x01);
+    };
+
+    mmu.write(0x0000, 0x0A);
+    mmu.write(0x4000, 0x0A);
+    mmu.write(0xA000, 23);
+    mmu.write(0x4000, 0x09);
+    mmu.write(0xA000, 59);
+    mmu.write(0x4000, 0x08);
+    mmu.write(0xA000, 59);
+    mmu.write(0x4000, 0x0B);
+    mmu.write(0xA000, 0xFF);
+    mmu.write(0x4000, 0x0C);
+    mmu.write(0xA000, 0x01);
+
+    mmu.Step(1048576);
+    assert.strictEqual(readRTC(0x08) & 0x3F, 0);
+    latch();
+    assert.strictEqual(readRTC(0x08) & 0x3F, 0);
+    assert.strictEqual(readRTC(0x09) & 0x3F, 0);
+    assert.strictEqual(readRTC(0x0A) & 0x1F, 0);
+    assert.strictEqual(readRTC(0x0B), 0);
+    assert.strictEqual(readRTC(0x0C) & 0xC1, 0x80);
+
+    mmu.write(0x4000, 0x0C);
+    mmu.write(0xA000, 0x40);
+    mmu.Step(1048576 * 10);
+    latch();
+    assert.strictEqual(readRTC(0x08) & 0x3F, 0);
+
+    mmu.write(0x4000, 0x0C);
+    mmu.write(0xA000, 0x00);
+    mmu.Step(1048576 * 5);
+    latch();
+    assert.strictEqual(readRTC(0x08) & 0x3F, 5);
+
+    // Rewind the saved timestamp by an hour and expect the clock to catch up on load
+    const save = mmu.exportSave();
+    assert.strictEqual(save.length, 0x8000 + RTC_SAVE_SIZE);
+    const view = new DataView(save.buffer, 0x8000);
+    view.setUint32(40, view.getUint32(40, true) - 3600, true);
+
+    const restored = new MMU(makeRom(0x10, 4, 0x03));
+    restored.importSave(save);
+    restored.write(0x0000, 0x0A);
+    restored.write(0x6000, 0x00);
+    restored.write(0x6000, 0x01);
+    restored.write(0x4000, 0x0A);
+    assert.strictEqual(restored.read(0xA000) & 0x1F, 1);
+
+    // Same with the older footer
+    const older = new MMU(makeRom(0x10, 4, 0x03));
+    older.importSave(save.subarray(0, 0x8000 + RTC_SAVE_SIZE_32));
+    older.write(0x0000, 0x0A);
+    older.write(0x6000, 0x00);
+    older.write(0x6000, 0x01);
+    older.write(0x4000, 0x0A);
+    assert.strictEqual(older.read(0xA000) & 0x1F, 1);
+
+    // Save states keep the part second, half cycles included, so both tick over together
+    const rtc = mmu.getRTC() as RTC;
+    rtc.Step(1048576 - 0.5);
+    const w = new StateWriter();
+    rtc.serialize(w);
+    const restoredRTC = new RTC();
+    restoredRTC.deserialize(new StateReader(w.finish()));
+    const states = [rtc, restoredRTC].map(clock => {
+        clock.Step(0.5);
+        const after = new StateWriter();
+        clock.serialize(after);
+        return after.finish();
+    });
+    assert.deepStrictEqual(states[1], states[0]);
+    latch();
+    assert.strictEqual(readRTC(0x08) & 0x3F, 6);
+};
+
+tests['mbc5 banking'] = () => {
+    const mmu = new MMU(makeRom(0x1B, 512, 0x04));
+    assert.strictEqual(mmu.read(0x5000), 1);
+
+    mmu.write(0x2000, 0x00);
+    assert.strictEqual(mmu.read(0x5000), 0);
+    mmu.write(0x2000, 0x23);
+    assert.strictEqual(mmu.read(0x5000), 0x23);
+    assert.strictEqual(mmu.read(0x5001), 0x00);
+    mmu.write(0x3000, 0x01);
+    assert.strictEqual(mmu.read(0x5000), 0x23);
+    assert.strictEqual(mmu.read(0x5001), 0x01);
+
+    mmu.write(0x0000, 0x0A);
+    for (let i = 0; i < 16; i++) {
+        mmu.write(0x4000, i);
+        mmu.write(0xA000, 0x80 | i);
+    }
+    for (let i = 0; i < 16; i++) {
+        mmu.write(0x4000, i);
+        assert.strictEqual(mmu.read(0xA000), 0x80 | i);
+    }
+};
+
+tests['mbc5 rumble'] = () => {
+    const mmu = new MMU(makeRom(0x1E, 4, 0x03));
+    const events: boolean[] = [];
+    mmu.onRumble = (active: boolean) => events.push(active);
+
+    mmu.write(0x0000, 0x0A);
+    mmu.write(0x4000, 0x01);
+    mmu.write(0xA000, 0x11);
+    mmu.write(0x4000, 0x09);
+    mmu.write(0x4000, 0x09);
+    assert.strictEqual(mmu.read(0xA000), 0x11);
+    mmu.write(0x4000, 0x01);
+    assert.deepStrictEqual(events, [true, false]);
+};
+
+tests['mbc2'] = () => {
+    const mmu = new MMU(makeRom(0x06, 16, 0x00));
+    assert.ok(mmu.hasBattery());
+
+    mmu.write(0x2100, 0x05);
+    assert.strictEqual(mmu.read(0x5000), 0x05);
+    mmu.write(0x2000, 0x07);
+    assert.strictEqual(mmu.read(0x5000), 0x05);
+    mmu.write(0x0100, 0x00);
+    assert.strictEqual(mmu.read(0x5000), 0x01);
+
+    assert.strictEqual(mmu.read(0xA000), 0xFF);
+    mmu.write(0x0000, 0x0A);
+    mmu.write(0xA001, 0x3C);
+    assert.strictEqual(mmu.read(0xA001), 0xFC);
+    assert.strictEqual(mmu.read(0xA201), 0xFC);
+    assert.strictEqual(mmu.read(0xBE01), 0xFC);
+
+    const save = mmu.exportSave();
+    assert.strictEqual(save.length, 0x200);
+    assert.strictEqual(save[1], 0x0C);
+
+    mmu.write(0x0100, 0x0A);
+    assert.strictEqual(mmu.read(0xA001), 0xFC);
+    mmu.write(0x0000, 0x00);
+    assert.strictEqual(mmu.read(0xA001), 0xFF);
+};
+
+tests['cartridge header'] = () => {
+    const header = parseCartridgeHeader(loadRom('./build/roms/cpu_instrs/cpu_instrs.gb'));
+    assert.strictEqual(header.title, 'CPU_INSTRS');
+    assert.strictEqual(header.type.name, 'MBC1');
+    assert.strictEqual(header.romSize, 0x10000);
+    assert.strictEqual(header.cgbSupport, CGBSupport.Compatible);
+    assert.ok(header.headerChecksumValid);
+
+    const rom = makeRom(0x1B, 4, 0x03);
+    rom.set(Array.from('TESTGAME   ABCD').map(c => c.charCodeAt(0)), 0x134);
+    rom[0x143] = 0xC0;
+    rom[0x14B] = 0x33;
+    rom.set([0x30, 0x31], 0x144);
+
+    const custom = parseCartridgeHeader(rom);
+    assert.strictEqual(custom.title, 'TESTGAME');
+    assert.strictEqual(custom.manufacturerCode, 'ABCD');
+    assert.strictEqual(custom.cgbSupport, CGBSupport.Only);
+    assert.strictEqual(custom.licensee, 'Nintendo R&D1');
+    assert.strictEqual(custom.ramSize, 0x8000);
+    assert.ok(custom.type.battery);
+    assert.ok(!custom.headerChecksumValid);
+    assert.ok(!custom.globalChecksumValid);
+};
+
+tests['save state'] = () => {
+    const rom = loadRom('./build/roms/cpu_instrs/individual/01-special.gb');
+    const run = (emulator: Emulator, frames: number) => {
+        for (let i = 0; i < frames; i++) {
+            emulator.runFrame();
+        }
+    };
+
+    const a = new Emulator(rom);
+    run(a, 30);
+    const state = a.saveState();
+    run(a, 60);
+
+    const b = new Emulator(rom);
+    b.loadState(state);
+    run(b, 60);
+
+    assert.deepStrictEqual(b.getRegisters(), a.getRegisters());
+    assert.deepStrictEqual(b.getColorFramebuffer(), a.getColorFramebuffer());
+    assert.deepStrictEqual(b.saveState(), a.saveState());
+
+    const other = new Emulator(loadRom('./build/roms/instr_timing/instr_timing.gb'));
+    assert.throws(() => other.loadState(state));
+
+    // Cut off in the last components, after the earlier ones were read, and put back as it was
+    const current = a.saveState();
+    assert.throws(() => a.loadState(state.subarray(0, state.length - 8)), (e: unknown) => typeof e == 'string' && e.startsWith('Unexpected end'));
+    assert.deepStrictEqual(a.saveState(), current);
+    run(a, 1);
+    run(b, 1);
+    assert.deepStrictEqual(a.getRegisters(), b.getRegisters());
+};
+
+tests['rewind'] = () => {
+    const prev = new Uint8Array([1, 2, 3, 4, 5, 6]);
+    const next = new Uint8Array([1, 2, 9, 4, 5, 6, 7, 8]);
+    assert.deepStrictEqual(decodeDelta(next, encodeDelta(prev, next)), prev);
+    assert.deepStrictEqual(decodeDelta(prev, encodeDelta(next, prev)), next);
+
+    const emulator = new Emulator(loadRom('./build/roms/cpu_instrs/individual/01-special.gb'));
+    const capture = () => emulator.saveState();
+    const rewind = new Rewind(capture, (state: Uint8Array) => emulator.loadState(state), { interval: 1, seconds: 1 });
+
+    const snapshots: Uint8Array[] = [];
+    for (let frame = 0; frame < 20; frame++) {
+        emulator.runFrame();
+        snapshots.push(capture());
+        rewind.frame();
+    }
+
+    assert.strictEqual(rewind.getDepth(), 19);
+    for (let i = 18; i >= 10; i--) {
+        assert.ok(rewind.stepBack());
+        assert.deepStrictEqual(capture(), snapshots[i]);
+    }
+
+    const small = new Rewind(capture, () => { }, { interval: 1, seconds: 1, budget: snapshots[0].length + 1 });
+    for (let i = 0; i < 10; i++) {
+        small.frame();
+    }
+    assert.ok(small.getMemoryUsage() <= snapshots[0].length + 1);
+};
+
+tests['apu'] = () => {
+    const mmu = new MMU(makeRom(0x00, 2, 0));
+    const apu = new APU(mmu, 48000);
+
+    mmu.writeReg(IORegister.SoundControl, 0x80);
+    mmu.writeReg(IORegister.SoundOutput, 0xFF);
+    mmu.writeReg(IORegister.SoundChannels, 0x77);
+    mmu.writeReg(IORegister.Sound2Mode, 0x80 | 0x3E);
+    mmu.writeReg(IORegister.Sound2Envelope, 0xF0);
+    mmu.writeReg(IORegister.Sound2FreqLo, 0x00);
+    mmu.writeReg(IORegister.Sound2FreqHi, 0x80 | 0x40 | 0x07);
+    assert.strictEqual(mmu.readReg(IORegister.SoundControl) & 0x0F, 0x02);
+    assert.strictEqual(mmu.readReg(IORegister.Sound2Mode), 0xBF);
+
+    apu.Step(1000);
+    const samples = apu.drainSamples();
+    assert.strictEqual(samples.length, Math.floor(1000 * 48000 / 1048576) * 2);
+    assert.ok(samples.some(v => v != 0));
+
+    // Length 2 expires after the second 256 Hz length clock
+    apu.Step(8192);
+    assert.strictEqual(mmu.readReg(IORegister.SoundControl) & 0x0F, 0x00);
+
+    mmu.writeReg(IORegister.Sound2FreqHi, 0x80 | 0x07);
+    assert.strictEqual(mmu.readReg(IORegister.SoundControl) & 0x0F, 0x02);
+    mmu.writeReg(IORegister.SoundControl, 0x00);
+    assert.strictEqual(mmu.readReg(IORegister.SoundControl), 0x70);
+    assert.strictEqual(mmu.readReg(IORegister.Sound2Envelope), 0x00);
+
+    // Wave RAM stays accessible with the APU powered off
+    mmu.write(0xFF30, 0x5A);
+    assert.strictEqual(mmu.read(0xFF30), 0x5A);
+
+    // Stepped in fractions of a cycle, which save states keep
+    mmu.writeReg(IORegister.SoundControl, 0x80);
+    apu.Step(100.5);
+    const w = new StateWriter();
+    apu.serialize(w);
+    const restored = new APU(new MMU(makeRom(0x00, 2, 0)), 48000);
+    restored.deserialize(new StateReader(w.finish()));
+
+    // Both reach the next frame sequencer step on the same half cycle
+    const states = [apu, restored].map(a => {
+        a.Step(2048 - 100.5);
+        const after = new StateWriter();
+        a.serialize(after);
+        return after.finish();
+    });
+    assert.deepStrictEqual(states[1], states[0]);
+};
+
+tests['frame pacing'] = () => {
+    const frameTime = 1000 / FRAME_RATE;
+    const pacer = new FramePacer({ maxFrameSkip: 2 });
+    assert.strictEqual(pacer.framesDue(0, null), 1);
+
+    // A 144 Hz host runs a frame on roughly every other refresh
+    let frames = 0;
+    for (let i = 1; i <= 144; i++) {
+        frames += pacer.framesDue(i * 1000 / 144, null);
+    }
+    assert.ok(Math.abs(frames - FRAME_RATE) <= 1);
+
+    // Catches up with skipped frames, then drops a backlog that is too large
+    pacer.reset();
+    assert.strictEqual(pacer.framesDue(0, null), 1);
+    assert.strictEqual(pacer.framesDue(frameTime * 2.5, null), 2);
+    assert.strictEqual(pacer.framesDue(frameTime * 20, null), 3);
+    assert.strictEqual(pacer.framesDue(frameTime * 20.5, null), 0);
+
+    const audioPacer = new FramePacer({ mode: SyncMode.Audio, audioLatency: 0.05 });
+    assert.strictEqual(audioPacer.framesDue(0, 0.05), 0);
+    assert.strictEqual(audioPacer.framesDue(1, 0.05 - 1.5 / FRAME_RATE), 2);
+    assert.strictEqual(audioPacer.rateAdjust(0), 1);
+
+    assert.ok(pacer.rateAdjust(0) > 1);
+    assert.ok(pacer.rateAdjust(1) < 1);
+    assert.ok(Math.abs(pacer.rateAdjust(pacer.getAudioLatency()) - 1) < 1e-9);
+};
+
+tests['speed control'] = () => {
+    const speed = new SpeedControl(4);
+    assert.strictEqual(speed.getSpeed(), 1);
+    speed.holdTurbo(true);
+    assert.strictEqual(speed.getSpeed(), 4);
+    speed.toggleTurbo();
+    speed.holdTurbo(false);
+    assert.strictEqual(speed.getSpeed(), 4);
+    speed.toggleTurbo();
+    assert.strictEqual(speed.getSpeed(), 1);
+
+    speed.setSpeed(0.1);
+    assert.strictEqual(speed.getSpeed(), MIN_SPEED);
+    speed.setTurboSpeed(100);
+    assert.strictEqual(speed.getTurboSpeed(), MAX_SPEED);
+
+    const frameTime = 1000 / FRAME_RATE;
+    const pacer = new FramePacer({ mode: SyncMode.Audio });
+    pacer.framesDue(0, null);
+    assert.strictEqual(pacer.framesDue(frameTime * 4, 0, 0.5), 2);
+    assert.strictEqual(pacer.framesDue(frameTime * 5, 0, 8), 8);
+    assert.strictEqual(pacer.framesDue(frameTime * 105, 0, 8), 40);
+};
+
+tests['cgb'] = () => {
+    const rom = makeRom(0x00, 2, 0);
+    rom[0x143] = 0x80;
+    const mmu = new MMU(rom);
+    const gb = new GB(mmu);
+    const ppu = new PPU(mmu);
+    assert.ok(mmu.isCGB());
+    assert.strictEqual(gb.getAF().Lo(), 0x11);
+
+    mmu.write(0x8000, 0x12);
+    mmu.writeReg(IORegister.VRAMBank, 1);
+    assert.strictEqual(mmu.read(0x8000), 0x00);
+    mmu.write(0x8000, 0x34);
+    assert.strictEqual(mmu.readVRAM(0, 0), 0x12);
+    assert.strictEqual(mmu.readVRAM(1, 0), 0x34);
+    assert.strictEqual(mmu.readReg(IORegister.VRAMBank), 0xFF);
+
+    mmu.write(0xD000, 0x01);
+    mmu.writeReg(IORegister.WRAMBank, 2);
+    mmu.write(0xD000, 0x02);
+    mmu.writeReg(IORegister.WRAMBank, 0);
+    assert.strictEqual(mmu.read(0xD000), 0x01);
+
+    mmu.writeReg(IORegister.SpeedSwitch, 0x01);
+    assert.strictEqual(mmu.readReg(IORegister.SpeedSwitch), 0x7F);
+    assert.ok(mmu.switchSpeed());
+    assert.ok(mmu.isDoubleSpeed());
+    assert.strictEqual(mmu.readReg(IORegister.SpeedSwitch), 0xFE);
+    assert.ok(!mmu.switchSpeed());
+
+    // General-purpose HDMA copies everything at once, HBlank HDMA one block per HBlank
+    for (let i = 0; i < 0x30; i++) {
+        mmu.write(0xC000 + i, i + 1);
+    }
+    mmu.writeReg(IORegister.VRAMBank, 0);
+    mmu.writeReg(IORegister.HDMASourceHi, 0xC0);
+    mmu.writeReg(IORegister.HDMASourceLo, 0x00);
+    mmu.writeReg(IORegister.HDMADestHi, 0x01);
+    mmu.writeReg(IORegister.HDMADestLo, 0x00);
+    mmu.writeReg(IORegister.HDMAControl, 0x00);
+    assert.strictEqual(mmu.read(0x810F), 0x10);
+    assert.strictEqual(mmu.readReg(IORegister.HDMAControl), 0xFF);
+
+    mmu.writeReg(IORegister.HDMAControl, 0x81);
+    assert.strictEqual(mmu.readReg(IORegister.HDMAControl), 0x01);
+    mmu.HBlank();
+    assert.strictEqual(mmu.read(0x8110), 0x11);
+    assert.strictEqual(mmu.read(0x8120), 0x00);
+    mmu.HBlank();
+    assert.strictEqual(mmu.read(0x8120), 0x21);
+    assert.strictEqual(mmu.readReg(IORegister.HDMAControl), 0xFF);
+
+    // Palette 0 colour 1 red, palette 1 colour 1 green, written with auto-increment
+    mmu.writeReg(IORegister.BGPaletteIndex, 0x82);
+    mmu.writeReg(IORegister.BGPaletteData, 0x1F);
+    mmu.writeReg(IORegister.BGPaletteData, 0x00);
+    mmu.writeReg(IORegister.BGPaletteIndex, 0x8A);
+    mmu.writeReg(IORegister.BGPaletteData, 0xE0);
+    mmu.writeReg(IORegister.BGPaletteData, 0x03);
+    assert.strictEqual(mmu.readReg(IORegister.BGPaletteIndex), 0xCC);
+
+    // Tile 0 row 0 is colour 1, tile map column 1 uses palette 1 through its bank 1 attribute
+    mmu.write(0x8000, 0xFF);
+    mmu.write(0x8001, 0x00);
+    mmu.write(0x9801, 0x00);
+    mmu.writeReg(IORegister.VRAMBank, 1);
+    mmu.write(0x9801, 0x01);
+    ppu.Step(17556, true);
+
+    const fb = ppu.getColorFramebuffer();
+    assert.strictEqual(fb[0], 0x001F);
+    assert.strictEqual(fb[8], 0x03E0);
+    assert.strictEqual(fb[PPU.BUF_WIDTH], 0x7FFF);
+};
+
+tests['boot rom'] = () => {
+    // Sets SP and LCDC, then unmaps itself from the last two bytes so execution falls through to 0x100
+    const boot = new Uint8Array(0x100);
+    boot.set([0x31, 0xFE, 0xFF, 0x3E, 0x91, 0xE0, 0x40]);
+    boot.set([0x3E, 0x01, 0xE0, 0x50], 0xFC);
+
+    const rom = makeRom(0x00, 2, 0);
+    rom[0x00] = 0xAA;
+    const mmu = new MMU(rom, boot);
+    const gb = new GB(mmu);
+    assert.ok(mmu.isBootROMActive());
+    assert.strictEqual(gb.getPC(), 0);
+    assert.strictEqual(mmu.read(0x00), 0x31);
+    assert.strictEqual(mmu.read(0x1000), 0x00);
+
+    let steps = 0;
+    while (gb.getPC() != 0x100 && ++steps < 1000) {
+        gb.Step();
+    }
+
+    assert.strictEqual(gb.getPC(), 0x100);
+    assert.strictEqual(gb.getSP(), 0xFFFE);
+    assert.strictEqual(mmu.readReg(IORegister.LCDControl), 0x91);
+    assert.ok(!mmu.isBootROMActive());
+    assert.strictEqual(mmu.read(0x00), 0xAA);
+
+    mmu.writeReg(IORegister.BootROMDisable, 0);
+    assert.ok(!mmu.isBootROMActive());
+    assert.throws(() => new MMU(rom, new Uint8Array(0x200)));
+};
+
+tests['memory access timing'] = () => {
+    const rom = makeRom(0x00, 2, 0);
+    // LD HL,0xFF70; LD (HL),0x42; INC (HL); LDH A,(0x70); LD A,(0xFF70); LD SP,0xFF70; RET NZ
+    rom.set([0x21, 0x70, 0xFF, 0x36, 0x42, 0x34, 0xF0, 0x70, 0xFA, 0x70, 0xFF, 0x31, 0x70, 0xFF, 0xC0], 0x100);
+    const mmu = new MMU(rom);
+    const gb = new GB(mmu);
+
+    let cycles = 0;
+    gb.onTick = (clks: number) => cycles += clks;
+
+    const accesses: string[] = [];
+    let value = 0;
+    mmu.mapRegion({
+        start: 0xFF70,
+        length: 2,
+        read: (addr: number) => { accesses.push('read ' + cycles); return value; },
+        write: (addr: number, v: number) => { accesses.push('write ' + cycles); value = v; },
+    });
+
+    assert.strictEqual(gb.Step(), 3);
+    const start = cycles;
+    assert.strictEqual(gb.Step(), 3);
+    assert.strictEqual(gb.Step(), 3);
+    assert.strictEqual(cycles, start + 6);
+    assert.deepStrictEqual(accesses, ['write ' + (start + 3), 'read ' + (start + 5), 'write ' + (start + 6)]);
+    assert.strictEqual(value, 0x43);
+
+    // Reads land on the last cycle, after the operand fetches
+    accesses.length = 0;
+    const load = cycles;
+    assert.strictEqual(gb.Step(), 3);
+    assert.strictEqual(gb.Step(), 4);
+    assert.deepStrictEqual(accesses, ['read ' + (load + 3), 'read ' + (load + 7)]);
+    assert.strictEqual(gb.getAF().Lo(), 0x43);
+
+    // A taken RET cc checks its condition for a cycle before popping, and sets PC for one after
+    gb.Step();
+    accesses.length = 0;
+    const ret = cycles;
+    assert.strictEqual(gb.Step(), 5);
+    assert.deepStrictEqual(accesses, ['read ' + (ret + 3), 'read ' + (ret + 4)]);
+    assert.strictEqual(gb.getPC(), 0x4343);
+};
+
+tests['oam dma'] = () => {
+    const mmu = new MMU(makeRom(0x00, 2, 0));
+    for (let i = 0; i < 0xA0; i++) {
+        mmu.write(0xC000 + i, i + 1);
+    }
+    mmu.write(0xFF90, 0x5A);
+
+    mmu.writeReg(IORegister.OAMDMA, 0xC0);
+    assert.ok(!mmu.isDMAActive());
+    mmu.Step(1);
+    assert.ok(mmu.isDMAActive());
+    assert.strictEqual(mmu.read(0xFE00), 0x00);
+
+    mmu.Step(80);
+    assert.strictEqual(mmu.read(0xFE4F), 0x50);
+    assert.strictEqual(mmu.read(0xFE50), 0x00);
+    assert.strictEqual(mmu.cpuRead(0xFE00), 0xFF);
+    assert.strictEqual(mmu.cpuRead(0x1000), 0x50);
+    assert.strictEqual(mmu.cpuRead(0x8000), 0x00);
+    assert.strictEqual(mmu.cpuRead(0xFF90), 0x5A);
+    mmu.cpuWrite(0xC000, 0xEE);
+    assert.strictEqual(mmu.read(0xC000), 0x01);
+
+    mmu.Step(80);
+    assert.ok(!mmu.isDMAActive());
+    assert.strictEqual(mmu.cpuRead(0xFE9F), 0xA0);
+
+    // 0xE0 and up read from the WRAM echo
+    mmu.write(0xF000, 0x77);
+    assert.strictEqual(mmu.read(0xD000), 0x77);
+    mmu.writeReg(IORegister.OAMDMA, 0xE0);
+    mmu.Step(0xA1);
+    assert.strictEqual(mmu.read(0xFE00), 0x01);
+};
+
+tests['timer'] = () => {
+    const mmu = new MMU(makeRom(0x00, 2, 0));
+    const gbTimer = new GBTimer(mmu);
+    assert.strictEqual(mmu.readReg(IORegister.Divider), 0xAB);
+    gbTimer.Step(64);
+    assert.strictEqual(mmu.readReg(IORegister.Divider), 0xAC);
+    mmu.writeReg(IORegister.Divider, 0x12);
+    assert.strictEqual(mmu.readReg(IORegister.Divider), 0x00);
+    assert.strictEqual(mmu.readReg(IORegister.TimerControl), 0xF8);
+
+    // TAC 5 ticks TIMA every 4 M-cycles; overflow reads 0 for a cycle before TMA and the interrupt land
+    mmu.writeReg(IORegister.InterruptFlag, 0);
+    mmu.writeReg(IORegister.TimerModulo, 0x10);
+    mmu.writeReg(IORegister.TimerCounter, 0xFE);
+    mmu.writeReg(IORegister.TimerControl, 0x05);
+    gbTimer.Step(4);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), 0xFF);
+    gbTimer.Step(4);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), 0x00);
+    assert.strictEqual(mmu.readReg(IORegister.InterruptFlag) & IOInterrupt.TIMA, 0);
+    gbTimer.Step(1);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), 0x10);
+    assert.strictEqual(mmu.readReg(IORegister.InterruptFlag) & IOInterrupt.TIMA, IOInterrupt.TIMA);
+
+    // TIMA writes are ignored on the reload cycle, TMA writes go through
+    mmu.writeReg(IORegister.TimerCounter, 0x33);
+    mmu.writeReg(IORegister.TimerModulo, 0x20);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), 0x20);
+
+    // Writing TIMA while it reads 0 cancels the reload
+    gbTimer.Step(1);
+    mmu.writeReg(IORegister.InterruptFlag, 0);
+    mmu.writeReg(IORegister.TimerCounter, 0xFF);
+    while (mmu.readReg(IORegister.TimerCounter) != 0) {
+        gbTimer.Step(1);
+    }
+    mmu.writeReg(IORegister.TimerCounter, 0x40);
+    gbTimer.Step(1);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), 0x40);
+    assert.strictEqual(mmu.readReg(IORegister.InterruptFlag) & IOInterrupt.TIMA, 0);
+
+    // Resetting DIV while the selected bit is high ticks TIMA
+    mmu.writeReg(IORegister.Divider, 0);
+    const tima = mmu.readReg(IORegister.TimerCounter);
+    gbTimer.Step(2);
+    mmu.writeReg(IORegister.Divider, 0);
+    assert.strictEqual(mmu.readReg(IORegister.TimerCounter), tima + 1);
+
+    const w = new StateWriter();
+    gbTimer.serialize(w);
+    const restored = new GBTimer(new MMU(makeRom(0x00, 2, 0)));
+    restored.deserialize(new StateReader(w.finish()));
+    assert.strictEqual(restored.read(0xFF05), tima + 1);
+
+    // Like mooneye's tim01 from the CPU side. The timer starts 8 M-cycles after resetting DIV and TIMA
+    // ticks every 4 after that, so reading it on the third cycle of LDH A,(TIMA) straight away sees 0
+    // and one NOP later sees 1
+    const readTIMA = (nops: number) => {
+        const rom = makeRom(0x00, 2, 0);
+        // XOR A; LDH (DIV),A; LDH (TIMA),A; LD A,5; LDH (TAC),A; NOP * nops; LDH A,(TIMA)
+        rom.set([0xAF, 0xE0, 0x04, 0xE0, 0x05, 0x3E, 0x05, 0xE0, 0x07, ...new Array(nops).fill(0), 0xF0, 0x05], 0x100);
+        const cpuMmu = new MMU(rom);
+        const cpu = new GB(cpuMmu);
+        const cpuTimer = new GBTimer(cpuMmu);
+        cpu.onTick = (clks: number) => {
+            cpuTimer.Step(clks);
+            cpuMmu.Step(clks);
+        };
+        for (let i = 0; i < 6 + nops; i++) {
+            cpu.Step();
+        }
+        return cpu.getAF().Lo();
+    };
+    assert.strictEqual(readTIMA(0), 0);
+    assert.strictEqual(readTIMA(1), 1);
+    assert.strictEqual(readTIMA(4), 1);
+    assert.strictEqual(readTIMA(5), 2);
+};
+
+tests['serial'] = () => {
+    const create = () => {
+        const mmu = new MMU(makeRom(0x00, 2, 0));
+        mmu.writeReg(IORegister.InterruptFlag, 0);
+        return { mmu, serial: new Serial(mmu) };
+    };
+    const send = (sys: ReturnType<typeof create>, v: number, control: number) => {
+        sys.mmu.writeReg(IORegister.SerialData, v);
+        sys.mmu.writeReg(IORegister.SerialControl, control);
+    };
+
+    // Nothing connected shifts in 0xFF after 8 bits at 8192 Hz
+    const a = create();
+    send(a, 0x42, 0x81);
+    a.serial.Step(1023);
+    assert.strictEqual(a.mmu.readReg(IORegister.SerialControl), 0xFF);
+    assert.strictEqual(a.mmu.readReg(IORegister.InterruptFlag) & IOInterrupt.Serial, 0);
+    a.serial.Step(1);
+    assert.strictEqual(a.mmu.readReg(IORegister.SerialData), 0xFF);
+    assert.strictEqual(a.mmu.readReg(IORegister.SerialControl), 0x7F);
+    assert.strictEqual(a.mmu.readReg(IORegister.InterruptFlag) & IOInterrupt.Serial, IOInterrupt.Serial);
+
+    a.serial.setTransport(new LoopbackTransport());
+    send(a, 0x42, 0x81);
+    a.serial.Step(1024);
+    assert.strictEqual(a.mmu.readReg(IORegister.SerialData), 0x42);
+
+    const lines: string[] = [];
+    const printer = new ConsoleTransport(line => lines.push(line));
+    a.serial.setTransport(printer);
+    for (const c of 'Hi\nyo') {
+        send(a, c.charCodeAt(0), 0x81);
+        a.serial.Step(1024);
+    }
+    assert.deepStrictEqual(lines, ['Hi']);
+    assert.strictEqual(printer.text, 'Hi\nyo');
+
+    // External clock waits for the other side
+    const b = create();
+    send(b, 0x34, 0x80);
+    b.serial.Step(100000);
+    assert.strictEqual(b.mmu.readReg(IORegister.SerialControl), 0xFE);
+
+    // The cable connects emulators and stays plugged in when either one resets
+    const left = new Emulator(makeRom(0x00, 2, 0));
+    const right = new Emulator(makeRom(0x00, 2, 0));
+    const cable = new LinkCable(left, right);
+    const exchange = (sent: number, received: number) => {
+        const [l, r] = [left.getMMU(), right.getMMU()];
+        l.writeReg(IORegister.InterruptFlag, 0);
+        r.writeReg(IORegister.InterruptFlag, 0);
+        r.writeReg(IORegister.SerialData, received);
+        r.writeReg(IORegister.SerialControl, 0x80);
+        l.writeReg(IORegister.SerialData, sent);
+        l.writeReg(IORegister.SerialControl, 0x81);
+        left.getSerial().Step(1024);
+        assert.strictEqual(l.readReg(IORegister.SerialData), received);
+        assert.strictEqual(r.readReg(IORegister.SerialData), sent);
+        assert.strictEqual(r.readReg(IORegister.SerialControl), 0x7E);
+        assert.strictEqual(l.readReg(IORegister.InterruptFlag) & IOInterrupt.Serial, IOInterrupt.Serial);
+        assert.strictEqual(r.readReg(IORegister.InterruptFlag) & IOInterrupt.Serial, IOInterrupt.Serial);
+    };
+    exchange(0x12, 0x34);
+    right.reset();
+    exchange(0x56, 0x78);
+    left.loadRom(makeRom(0x00, 2, 0));
+    exchange(0x9A, 0xBC);
+    cable.disconnect();
+    assert.strictEqual(left.getSerial().getTransport(), null);
+    assert.strictEqual(right.getSerial().getTransport(), null);
+
+    send(a, 0x56, 0x81);
+    a.serial.Step(500);
+    const w = new StateWriter();
+    a.serial.serialize(w);
+    const restored = create();
+    restored.serial.deserialize(new StateReader(w.finish()));
+    restored.serial.Step(524);
+    assert.strictEqual(restored.mmu.readReg(IORegister.SerialData), 0xFF);
+    assert.strictEqual(restored.mmu.readReg(IORegister.SerialControl), 0x7F);
+};
+
+tests['printer'] = () => {
+    const images: PrintedImage[] = [];
+    const printer = new Printer(image => images.push(image));
+    const send = (command: number, data: number[], compressed: boolean = false, corrupt: boolean = false): number[] => {
+        const body = [command, compressed ? 1 : 0, data.length & 0xFF, data.length >> 8, ...data];
+        const checksum = body.reduce((a, b) => a + b, corrupt ? 1 : 0);
+        return [0x88, 0x33, ...body, checksum & 0xFF, (checksum >> 8) & 0xFF, 0, 0].map(v => printer.transfer(v));
+    };
+    const status = (reply: number[]) => reply[reply.length - 1];
+
+    assert.deepStrictEqual(decompressRLE(new Uint8Array([0x81, 0xAA, 0x01, 0x12, 0x34])), new Uint8Array([0xAA, 0xAA, 0xAA, 0x12, 0x34]));
+
+    let reply = send(0x01, []);
+    assert.deepStrictEqual(reply.slice(-2), [0x81, 0]);
+
+    // Two tile rows: the first in colour 1, the second in colour 3, RLE compressed
+    const rows = [...new Array(320).fill(0).map((_, i) => i % 2 ? 0x00 : 0xFF), ...new Array(320).fill(0xFF)];
+    const compressed: number[] = [];
+    for (let i = 0; i < rows.length; i += 2) {
+        compressed.push(0x01, rows[i], rows[i + 1]);
+    }
+    reply = send(0x04, compressed, true);
+    assert.strictEqual(status(reply), PrinterStatus.Unprocessed);
+    send(0x04, []);
+
+    reply = send(0x02, [1, 0x13, 0xE4, 0x40], false, true);
+    assert.strictEqual(status(reply) & PrinterStatus.ChecksumError, PrinterStatus.ChecksumError);
+    assert.strictEqual(images.length, 0);
+
+    reply = send(0x02, [1, 0x13, 0xE4, 0x40]);
+    assert.strictEqual(status(reply), PrinterStatus.Busy);
+    assert.strictEqual(images.length, 1);
+    const image = images[0];
+    assert.strictEqual(image.width, 160);
+    assert.strictEqual(image.height, 16);
+    assert.strictEqual(image.marginBefore, 1);
+    assert.strictEqual(image.marginAfter, 3);
+    assert.strictEqual(image.pixels[0], 0xAA);
+    assert.strictEqual(image.pixels[160 * 16 - 1], 0x00);
+
+    let polls = 0;
+    while (status(send(0x0F, [])) & PrinterStatus.Busy) {
+        polls++;
+    }
+    assert.ok(polls > 0 && polls < 10);
+};
+
+tests['headless runner'] = () => {
+    assert.strictEqual(parseNumber('0x1F'), 0x1F);
+    assert.strictEqual(parseNumber('$ff80'), 0xFF80);
+    assert.strictEqual(parseNumber('120'), 120);
+    assert.throws(() => parseNumber('12ab'));
+
+    assert.deepStrictEqual(parseInputScript('# title screen\n30 Start press\n\n 31 start release # done\n10 a press\n'), [
+        { frame: 10, button: Button.A, pressed: true },
+        { frame: 30, button: Button.Start, pressed: true },
+        { frame: 31, button: Button.Start, pressed: false },
+    ]);
+    assert.throws(() => parseInputScript('10 turbo press'));
+
+    const args = parseArgs(['game.gb', '--frames', '60', '--until-mem', '0xC000=$42', '--until-pc', '0x150']);
+    assert.strictEqual(args.romPath, 'game.gb');
+    assert.strictEqual(args.frames, 60);
+    assert.deepStrictEqual(args.untilMemory, { address: 0xC000, value: 0x42 });
+    assert.strictEqual(args.untilPC, 0x150);
+    assert.throws(() => parseArgs(['game.gb', '--frames']));
+    assert.throws(() => parseArgs(['--frames', '60']));
+
+    const options = {
+        rom: loadRom('./build/roms/cpu_instrs/individual/01-special.gb'), bootRom: null, frames: 1200,
+        untilSerial: 'Passed', untilPC: null, untilBank: null, untilCondition: null, untilWatch: null, untilMemory: null,
+        input: [], onSerialLine: () => {}, trace: null, onTraceLine: () => {},
+    };
+    const result = runHeadless(options);
+    assert.strictEqual(result.reason, 'serial');
+    assert.ok(result.frames < 1200);
+    assert.ok(result.serial.startsWith('01-special'));
+
+    // 8 byte signature, then IHDR with 160x144 RGB and the IDAT holding one filter byte per row
+    const png = result.screenshot;
+    assert.strictEqual(png.toString('ascii', 1, 4), 'PNG');
+    assert.strictEqual(png.readUInt32BE(16), 160);
+    assert.strictEqual(png.readUInt32BE(20), 144);
+    const idatLength = png.readUInt32BE(33);
+    assert.strictEqual(png.toString('ascii', 37, 41), 'IDAT');
+    assert.strictEqual(zlib.inflateSync(png.subarray(41, 41 + idatLength)).length, (160 * 3 + 1) * 144);
+
+    const timedOut = runHeadless({ ...options, frames: 10, untilSerial: 'never printed' });
+    assert.strictEqual(timedOut.reason, 'frames');
+    assert.strictEqual(timedOut.frames, 10);
+};
+
+tests['emulator'] = () => {
+    const emulator = new Emulator(loadRom('./build/roms/cpu_instrs/individual/01-special.gb'));
+    let vblanks = 0;
+    const onVBlank = () => vblanks++;
+    emulator.on('vblank', onVBlank);
+    // The LCD is off for the first few frames while the ROM sets up
+    for (let i = 0; i < 10; i++) {
+        assert.ok(emulator.runFrame());
+    }
+    vblanks = 0;
+    for (let i = 0; i < 10; i++) {
+        emulator.runFrame();
+    }
+    assert.strictEqual(vblanks, 10);
+    emulator.off('vblank', onVBlank);
+    emulator.runFrame();
+    assert.strictEqual(vblanks, 10);
+
+    // Frames end on vblank, so the one drawn after skipping others is the same picture as drawing them all
+    assert.strictEqual(emulator.getMMU().readReg(IORegister.LCDY), 144);
+    const skipping = new Emulator(loadRom('./build/roms/adjtris.gb'));
+    const drawing = new Emulator(loadRom('./build/roms/adjtris.gb'));
+    for (let i = 0; i < 13; i++) {
+        skipping.runFrame(i == 12);
+        drawing.runFrame(true);
+    }
+    assert.deepStrictEqual(skipping.getFramebuffer(), drawing.getFramebuffer());
+
+    // Stops before executing the breakpoint, then leaves it on the next run
+    const hits: number[] = [];
+    emulator.on('breakpoint', (pc: number) => hits.push(pc));
+    emulator.addBreakpoint(0x100);
+    emulator.reset();
+    assert.strictEqual(emulator.getRegisters().pc, 0x100);
+    assert.ok(!emulator.runFrame());
+    assert.deepStrictEqual(hits, [0x100]);
+    assert.strictEqual(emulator.getRegisters().pc, 0x100);
+    assert.ok(emulator.runFrame());
+    emulator.clearBreakpoints();
+
+    const pc = emulator.getRegisters().pc;
+    emulator.addBreakpoint(pc);
+    assert.ok(!emulator.runCycles(FRAME_CYCLES * 2));
+    assert.strictEqual(emulator.getRegisters().pc, pc);
+    emulator.removeBreakpoint(pc);
+    assert.ok(emulator.runCycles(100));
+
+    let steps = 0;
+    assert.ok(!emulator.runFrame(true, () => ++steps == 5));
+    assert.strictEqual(steps, 5);
+};
+
+tests['debugger'] = () => {
+    const rom = makeRom(0x01, 4, 0);
+    const code = (addr: number, bytes: number[]) => rom.set(bytes, addr);
+    code(0x100, [0x00, 0xC3, 0x50, 0x01]);  // nop, jp $0150
+    code(0x150, [0x3E, 0x05]);              // ld a, 5
+    code(0x152, [0xCD, 0x00, 0x02]);        // call $0200
+    code(0x155, [0xEA, 0x00, 0xC0]);        // ld ($C000), a
+    code(0x158, [0x3E, 0x02]);              // ld a, 2
+    code(0x15A, [0xEA, 0x00, 0x20]);        // ld ($2000), a ; ROM bank 2
+    code(0x15D, [0xCD, 0x00, 0x40]);        // call $4000
+    code(0x160, [0xAF, 0xE0, 0x0F]);        // xor a, ldh (IF), a
+    code(0x163, [0x3E, 0x01, 0xE0, 0xFF]);  // ld a, 1, ldh (IE), a
+    code(0x167, [0xFB, 0x18, 0xFE]);        // ei, jr @
+    code(0x200, [0x3C, 0x21, 0x10, 0xC0]);  // inc a, ld hl, $C010
+    code(0x204, [0x77, 0xC9]);              // ld (hl), a, ret
+    code(0x40, [0xD9]);                     // reti
+    code(0x4000, [0xC9]);
+    code(0x8000, [0xC9]);
+
+    const emulator = new Emulator(rom);
+    const debug: Debugger = emulator.getDebugger();
+    const stops: BreakInfo[] = [];
+    emulator.on('breakpoint', (pc: number, info: BreakInfo) => stops.push(info));
+    const a = () => emulator.getRegisters().af >> 8;
+
+    const bp = debug.addBreakpoint(0x152);
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[0].reason, BreakReason.Breakpoint);
+    assert.strictEqual(stops[0].breakpoint, bp);
+    assert.strictEqual(emulator.getRegisters().pc, 0x152);
+    assert.ok(debug.isPaused());
+
+    let info = debug.stepOver();
+    assert.strictEqual(info.reason, BreakReason.Step);
+    assert.strictEqual(info.pc, 0x155);
+    assert.strictEqual(a(), 6);
+    assert.strictEqual(stops.length, 2);
+
+    emulator.reset();
+    emulator.runFrame();
+    assert.strictEqual(debug.stepInto().pc, 0x200);
+    assert.strictEqual(debug.stepInto().pc, 0x201);
+    assert.strictEqual(debug.stepOut().pc, 0x155);
+    debug.removeBreakpoint(bp.id);
+
+    emulator.reset();
+    assert.strictEqual(debug.runToCursor(0x204).pc, 0x204);
+
+    // Conditions see the registers and memory at the breakpoint
+    emulator.reset();
+    debug.addBreakpoint(0x204, null, 'A == 7');
+    const cond = debug.addBreakpoint(0x204, null, 'A == 6 && HL == $C010 && [PC] == $77');
+    stops.length = 0;
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[0].breakpoint, cond);
+    debug.getBreakpoints().forEach(b => debug.removeBreakpoint(b.id));
+
+    // Only the breakpoint in the bank actually mapped stops
+    emulator.reset();
+    debug.addBreakpoint(0x4000, 1);
+    const banked = debug.addBreakpoint(0x4000, 2);
+    stops.length = 0;
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[0].breakpoint, banked);
+    assert.strictEqual(stops[0].bank, 2);
+    debug.getBreakpoints().forEach(b => debug.removeBreakpoint(b.id));
+
+    // Accesses stop after the instruction making them
+    emulator.reset();
+    const watch = debug.addWatchpoint(0xC000, 0xC00F, WatchType.Write);
+    stops.length = 0;
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[0].watchpoint, watch);
+    assert.strictEqual(stops[0].address, 0xC000);
+    assert.strictEqual(stops[0].value, 6);
+    assert.ok(stops[0].write);
+    assert.strictEqual(stops[0].pc, 0x158);
+    debug.setEnabled(watch.id, false);
+    const exec = debug.addWatchpoint(0x4000, 0x4000, WatchType.Execute);
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[1].watchpoint, exec);
+    assert.strictEqual(stops[1].pc, 0x4000);
+    debug.removeWatchpoint(watch.id);
+    debug.removeWatchpoint(exec.id);
+
+    // Executing code isn't a read of it, popping the return address is
+    emulator.reset();
+    const codeWatch = debug.addWatchpoint(0x100, 0x20F, WatchType.Read);
+    stops.length = 0;
+    for (let i = 0; i < 5; i++) {
+        assert.ok(emulator.runFrame());
+    }
+    assert.strictEqual(stops.length, 0);
+    debug.removeWatchpoint(codeWatch.id);
+    emulator.reset();
+    const stack = debug.addWatchpoint(0xFFFC, 0xFFFC, WatchType.Read);
+    assert.ok(!emulator.runFrame());
+    assert.strictEqual(stops[0].watchpoint, stack);
+    // Stopped inside the ret at 0x205, after its opcode fetch
+    assert.strictEqual(stops[0].pc, 0x206);
+    debug.removeWatchpoint(stack.id);
+
+    emulator.reset();
+    debug.setBreakOnInterrupt(IOInterrupt.VBlank);
+    stops.length = 0;
+    while (emulator.runFrame()) {
+    }
+    assert.strictEqual(stops[0].reason, BreakReason.Interrupt);
+    assert.strictEqual(stops[0].interrupt, IOInterrupt.VBlank);
+    assert.strictEqual(stops[0].pc, 0x40);
+    debug.setBreakOnInterrupt(0);
+    assert.ok(!debug.isActive());
+
+    assert.throws(() => compileExpression('A =='));
+    assert.throws(() => compileExpression('Q > 1'));
+    assert.throws(() => debug.addBreakpoint(0x150, null, '(A'));
+    const expr = compileExpression('1 + 2 == 3 && !0 && (($F0 | 1) & ~1) == $F0 && 1 << 4 == $10');
+    assert.strictEqual(expr(emulator.getCPU(), emulator.getMMU()), 1);
+};
+
+tests['disassembler'] = () => {
+    const text = (...bytes: number[]) => disassemble(a => bytes[a] ?? 0, 0).text;
+    assert.strictEqual(text(0x00), 'nop');
+    assert.strictEqual(text(0x01, 0x34, 0x12), 'ld bc, $1234');
+    assert.strictEqual(text(0x08, 0x00, 0xC0), 'ld [$C000], sp');
+    assert.strictEqual(text(0x22), 'ld [hl+], a');
+    assert.strictEqual(text(0x36, 0x7F), 'ld [hl], $7F');
+    assert.strictEqual(text(0x18, 0xFE), 'jr $0000');
+    assert.strictEqual(text(0x20, 0x05), 'jr nz, $0007');
+    assert.strictEqual(text(0x76), 'halt');
+    assert.strictEqual(text(0x7E), 'ld a, [hl]');
+    assert.strictEqual(text(0x9F), 'sbc a, a');
+    assert.strictEqual(text(0xC2, 0x50, 0x01), 'jp nz, $0150');
+    assert.strictEqual(text(0xE0, 0x40), 'ldh [$FF40], a');
+    assert.strictEqual(text(0xE2), 'ldh [c], a');
+    assert.strictEqual(text(0xE8, 0xFE), 'add sp, -2');
+    assert.strictEqual(text(0xF8, 0x02), 'ld hl, sp+2');
+    assert.strictEqual(text(0xEE, 0x0F), 'xor $0F');
+    assert.strictEqual(text(0xFF), 'rst $38');
+    assert.strictEqual(text(0xCB, 0x37), 'swap a');
+    assert.strictEqual(text(0xCB, 0x7E), 'bit 7, [hl]');
+    assert.strictEqual(text(0xCB, 0xC1), 'set 0, c');
+    for (const op of [0xD3, 0xDB, 0xDD, 0xE3, 0xE4, 0xEB, 0xEC, 0xED, 0xF4, 0xFC, 0xFD]) {
+        assert.strictEqual(text(op), 'db $' + op.toString(16).toUpperCase());
+    }
+
+    // Lengths agree with how far the CPU moves PC. The operands make JP, CALL and JR land on the next
+    // instruction, RET, RETI, RST and JP HL go elsewhere.
+    for (let op = 0; op < 256; op++) {
+        const rom = makeRom(0x00, 2, 0);
+        const jr = op == 0x18 || (op & 0xE7) == 0x20;
+        rom.set(jr ? [op, 0x00] : [op, 0x03, 0x01], 0x100);
+        const instr = disassemble(a => rom[a], 0x100);
+        if (instr.text.startsWith('db ') || [0xC0, 0xC8, 0xC9, 0xD0, 0xD8, 0xD9, 0xE9].includes(op) || (op & 0xC7) == 0xC7) {
+            continue;
+        }
+
+        const gb = new GB(new MMU(rom));
+        gb.Step();
+        assert.strictEqual(gb.getPC() - 0x100, instr.bytes.length, instr.text);
+    }
+
+    const symbols = SymbolTable.parse([
+        '; File generated by rgblink',
+        '[labels]',
+        '00:0150 Main',
+        '00:0200 Helper',
+        '01:4000 BankOne',
+        '02:4000 BankTwo',
+        'C000 wCounter',
+    ].join('\n'));
+    assert.strictEqual(symbols.size(), 5);
+    assert.deepStrictEqual(symbols.find('BankTwo'), { bank: 2, address: 0x4000 });
+    assert.strictEqual(symbols.lookup(1, 0x4000), 'BankOne');
+    assert.strictEqual(symbols.lookup(3, 0x4000), null);
+    assert.strictEqual(symbols.lookup(1, 0xC000), 'wCounter');
+    assert.throws(() => SymbolTable.parse('00:zz Nope'));
+
+    const rom = makeRom(0x01, 4, 0);
+    rom.set([0xC3, 0x50, 0x01], 0x100);             // jp Main
+    rom.set([0xCD, 0x00, 0x02, 0xEA, 0x00, 0xC0], 0x150); // call Helper, ld [wCounter], a
+    rom.set([0xCD, 0x00, 0x40, 0xD3], 0x156);       // call $4000, illegal
+    rom[0x200] = 0xC9;                              // ret
+    rom[0x4000] = 0xC9;                             // ret
+    rom.set([0xC3, 0x00, 0x40], 0x8000);            // jp BankTwo
+    const emulator = new Emulator(rom);
+    const disasm = new Disassembler(emulator.getMMU(), symbols);
+    assert.deepStrictEqual(disasm.decodeRange(0x100, 4).map(i => i.text),
+        ['jp Main', 'nop', 'nop', 'nop']);
+    assert.deepStrictEqual(disasm.decodeRange(0x150, 3).map(i => i.text),
+        ['call Helper', 'ld [wCounter], a', 'call BankOne']);
+    assert.strictEqual(disasm.decode(0x4000, 2).text, 'jp BankTwo');
+    assert.strictEqual(disasm.decode(0x4000, 2).bank, 2);
+    assert.strictEqual(disasm.formatAddress(0x4000, 2), 'BankTwo');
+    assert.strictEqual(disasm.formatAddress(0x4000), 'BankOne');
+    assert.strictEqual(formatInstruction(disasm.decode(0x150)), '00:0150  CD 00 02  call Helper');
+
+    emulator.getDebugger().setSymbols(symbols);
+    assert.strictEqual(emulator.getDebugger().disassemble(0x100)[0].text, 'jp Main');
+
+    // The CPU reports where it found an opcode it doesn't have
+    assert.throws(() => emulator.runFrame(), (e: unknown) => e === 'Unhandled opcode at 00:0159  D3        db $D3');
+};
+
+tests['trace'] = () => {
+    const rom = makeRom(0x01, 4, 0);
+    rom.set([0x00, 0xC3, 0x50, 0x01], 0x100);           // nop, jp $0150
+    rom.set([0x3E, 0x02, 0xEA, 0x00, 0x20], 0x150);     // ld a, 2, ld [$2000], a
+    rom.set([0xCD, 0x00, 0x40, 0xD3], 0x155);           // call $4000, illegal
+    rom.set([0x3C, 0xC9], 0x8000);                      // bank 2: inc a, ret
+
+    const emulator = new Emulator(rom);
+    const lines: string[] = [];
+    const tracer = new Tracer(emulator);
+    tracer.onLine = line => lines.push(line);
+    emulator.setTracer(tracer);
+    emulator.step();
+    emulator.step();
+    assert.deepStrictEqual(lines, [
+        'A:01 F:B0 B:00 C:13 D:00 E:D8 H:01 L:4D SP:FFFE PC:0100 PCMEM:00,C3,50,01',
+        'A:01 F:B0 B:00 C:13 D:00 E:D8 H:01 L:4D SP:FFFE PC:0101 PCMEM:C3,50,01,00',
+    ]);
+
+    // Only the code in bank 2, with labels
+    emulator.reset();
+    const symbols = SymbolTable.parse('02:4000 Increment');
+    const bgb = new Tracer(emulator, { format: TraceFormat.BGB, bank: 2, symbols });
+    lines.length = 0;
+    bgb.onLine = line => lines.push(line);
+    emulator.setTracer(bgb);
+    assert.throws(() => emulator.runFrame());
+    assert.strictEqual(lines.length, 2);
+    assert.match(lines[0], /^A:02 F:Z-HC BC:0013 DE:00D8 HL:014D SP:FFFC PC:4000 \(cy: \d+\) LY:\w\w \|\[02\]0x4000: 3C        inc a$/);
+    assert.match(lines[1], /PC:4001 .*ret$/);
+
+    // The last instructions before the crash are written however the run ends
+    emulator.setTracer(null);
+    const ringLines: string[] = [];
+    assert.throws(() => runHeadless({
+        rom, bootRom: null, frames: 10, untilSerial: null, untilPC: null, untilBank: null, untilCondition: null,
+        untilWatch: null, untilMemory: null, input: [], onSerialLine: () => {},
+        trace: { ringSize: 3, start: 0x150, end: 0x3FFF }, onTraceLine: line => ringLines.push(line),
+    }));
+    assert.deepStrictEqual(ringLines.map(l => l.match(/PC:(\w+)/)![1]), ['0152', '0155', '0158']);
+
+    const args = parseArgs(['game.gb', '--trace', 'out.log', '--trace-format', 'bgb', '--trace-ring', '100', '--trace-range', '$4000-$7FFF']);
+    assert.strictEqual(args.traceFormat, TraceFormat.BGB);
+    assert.strictEqual(args.traceRing, 100);
+    assert.deepStrictEqual(args.traceRange, { start: 0x4000, end: 0x7FFF });
+    assert.throws(() => parseArgs(['game.gb', '--trace-format', 'nocash']));
+};
+
+tests['vram viewer'] = () => {
+    const emulator = new Emulator(makeRom(0x00, 2, 0));
+    const mmu = emulator.getMMU();
+    const viewer = new VRAMViewer(emulator);
+    const shade = (pixels: Uint8ClampedArray, width: number, x: number, y: number) => pixels[(y * width + x) * 4];
+
+    // Tile 1: top row colour 3 at the left pixel and colour 1 at the right one, the rest colour 0
+    mmu.write(0x8010, 0x81);
+    mmu.write(0x8011, 0x80);
+    const tiles = viewer.renderTiles();
+    assert.strictEqual(shade(tiles, TILES_WIDTH, 8, 0), 0);
+    assert.strictEqual(shade(tiles, TILES_WIDTH, 15, 0), 0xAA);
+    assert.strictEqual(shade(tiles, TILES_WIDTH, 9, 0), 0xFF);
+
+    // Through BGP $E4 in the map at 0x9C00, tile 1 in the second column of the second row
+    mmu.writeReg(IORegister.BackgroundPalette, 0xE4);
+    mmu.write(0x9C21, 1);
+    const map = viewer.renderMap(0x9C00);
+    assert.strictEqual(map.length, MAP_SIZE * MAP_SIZE * 4);
+    assert.strictEqual(shade(map, MAP_SIZE, 8, 8), 0);
+    assert.strictEqual(shade(map, MAP_SIZE, 15, 8), 0xAA);
+    assert.strictEqual(shade(viewer.renderMap(0x9800), MAP_SIZE, 8, 8), 0xFF);
+
+    mmu.writeReg(IORegister.LCDControl, 0x80 | 0x40 | 0x20 | 0x04 | 0x01);
+    mmu.writeReg(IORegister.ScrollX, 12);
+    mmu.writeReg(IORegister.WindowX, 7 + 20);
+    mmu.writeReg(IORegister.WindowY, 100);
+    const viewport = viewer.getViewport();
+    assert.strictEqual(viewport.scx, 12);
+    assert.strictEqual(viewport.bgMap, 0x9800);
+    assert.strictEqual(viewport.windowMap, 0x9C00);
+    assert.ok(viewport.windowEnabled);
+    assert.strictEqual(viewport.wx, 20);
+    assert.strictEqual(viewport.spriteHeight, 16);
+
+    // Sprite 3 on screen at (0, 0) with tile 1 flipped horizontally through OBP1
+    mmu.writeReg(IORegister.ObjectPalette1, 0xE4);
+    [16, 8, 1, 0x30].forEach((v, i) => mmu.write(0xFE0C + i, v));
+    const oam = viewer.getOAM();
+    assert.strictEqual(oam.length, 40);
+    assert.deepStrictEqual(oam[3], {
+        index: 3, x: 0, y: 0, tile: 1, attr: 0x30, behindBG: false, flipY: false, flipX: true, palette: 1, bank: 0, visible: true,
+    });
+    assert.ok(!oam[0].visible);
+
+    // 8x16 uses tile 0 on top, so flipped tile 1 lands on the bottom half; colour 0 stays transparent
+    const sprite = viewer.renderSprite(oam[3], 16);
+    assert.strictEqual(sprite.length, 8 * 16 * 4);
+    assert.strictEqual(sprite[(8 * 8 + 0) * 4], 0xAA);
+    assert.strictEqual(sprite[(8 * 8 + 7) * 4], 0);
+    assert.strictEqual(sprite[(8 * 8 + 7) * 4 + 3], 0xFF);
+    assert.strictEqual(sprite[(8 * 8 + 1) * 4 + 3], 0);
+};
+
+tests['memory viewer'] = () => {
+    const emulator = new Emulator(makeRom(0x03, 4, 0x03));
+    const mmu = emulator.getMMU();
+    const viewer = new MemoryViewer(emulator);
+
+    // makeRom marks each bank with its number at offset 0x1000
+    assert.strictEqual(viewer.read(0x5000), 1);
+    viewer.setBank(0x4000, 3);
+    assert.strictEqual(viewer.getBank(0x7FFF), 3);
+    assert.strictEqual(viewer.read(0x5000), 3);
+    assert.throws(() => viewer.setBank(0x4000, 4));
+    assert.throws(() => viewer.setBank(0xFF80, 0));
+    assert.deepStrictEqual(mmu.getBankRange(0xA000), [0, 3]);
+    assert.deepStrictEqual(mmu.getBankRange(0xD000), [1, 1]);
+
+    // Bypassed writes land in the selected bank without touching the mapper
+    viewer.write(0x4000, 0x42, true);
+    assert.strictEqual(mmu.readROM(3, 0x4000), 0x42);
+    assert.strictEqual(mmu.getROMBank(0x4000), 1);
+    viewer.write(0x2000, 2, false);
+    assert.strictEqual(mmu.getROMBank(0x4000), 2);
+    assert.strictEqual(mmu.readROM(0, 0x2000), 0);
+
+    // Even into cartridge RAM that is disabled
+    viewer.setBank(0xA000, 2);
+    viewer.write(0xA010, 0x99, true);
+    assert.strictEqual(viewer.read(0xA010), 0x99);
+    assert.strictEqual(mmu.read(0xA010), 0xFF);
+    assert.ok(mmu.isSaveDirty());
+
+    viewer.snapshot();
+    viewer.write(0xC000, 0x12, true);
+    viewer.write(0xE001, 0x34, true);
+    assert.strictEqual(mmu.read(0xC001), 0x34);
+    viewer.snapshot();
+    assert.ok(viewer.changed(0xC000));
+    assert.ok(viewer.changed(0xC001));
+    assert.ok(!viewer.changed(0xC002));
+    viewer.snapshot();
+    assert.ok(!viewer.changed(0xC000));
+
+    // Showing another bank isn't a change
+    viewer.setBank(0x4000, 1);
+    viewer.snapshot();
+    assert.ok(!viewer.changed(0x5000));
+
+    mmu.writeReg(IORegister.LCDControl, 0x91);
+    mmu.writeReg(IORegister.TimerControl, 0x05);
+    mmu.write(0xFFFF, 0x05);
+    const io = viewer.getIORegisters();
+    const fields = (name: string) => {
+        const reg = io.find(r => r.name == name);
+        assert.ok(reg, name);
+        return Object.fromEntries(reg.fields.map(f => [f.name, f.value]));
+    };
+    assert.ok(!io.some(r => r.name == 'KEY1'));
+    assert.deepStrictEqual(io.map(r => r.address), io.map(r => r.address).sort((a, b) => a - b));
+    assert.strictEqual(io[io.length - 1].address, 0xFFFF);
+    assert.strictEqual(fields('LCDC')['LCD'], 'on');
+    assert.strictEqual(fields('LCDC')['Tile data'], '$8000');
+    assert.strictEqual(fields('LCDC')['BG map'], '$9800');
+    assert.strictEqual(fields('TAC')['Frequency'], '262144 Hz');
+    assert.strictEqual(fields('TAC')['Enabled'], 'on');
+    assert.deepStrictEqual(fields('IE'), { 'VBlank': 'on', 'LCD STAT': 'off', 'Timer': 'on', 'Serial': 'off', 'Joypad': 'off' });
+    assert.ok(['HBlank', 'VBlank', 'OAM scan', 'Drawing'].includes(fields('STAT')['Mode']));
+};
+
 for (let t in tests) {
     console.log('Test', t);
     tests[t]();